@@ -0,0 +1,122 @@
+/**
+ * Library entry point: scan directory trees for Git repositories and format
+ * the results, without going through the command line.
+ *
+ * ```ts
+ * import { discoverRepositories, formatTree, scanTree } from "./mod.ts";
+ *
+ * for await (const repo of discoverRepositories({ path: "../projects" })) {
+ *   console.log(repo.path, repo.gitStatus?.branch);
+ * }
+ *
+ * const root = await scanTree({ path: "../projects" });
+ * console.log(formatTree(root, { format: "markdown", reposOnly: true }));
+ * ```
+ *
+ * @module
+ */
+import { ScanCache } from "./src/cache.ts";
+import { DenoCommandRunner } from "./src/command_runner.ts";
+import { DenoFileSystem } from "./src/file_system.ts";
+import { GitService } from "./src/git.ts";
+import { Logger } from "./src/logger.ts";
+import { RepositoryTree, RepositoryTreeOptions } from "./src/repo_tree.ts";
+import { ItemInfo } from "./src/types.ts";
+
+export type { HealthWarning, HealthWarningKind } from "./src/doctor.ts";
+export type { RepositoryFilter } from "./src/filter.ts";
+export type { DisplayMode, TreeFormatOptions } from "./src/format.ts";
+export type {
+  GitStatus,
+  LastCommit,
+  RepoKind,
+  RepositoryActivity,
+  RepositoryInfo,
+} from "./src/git.ts";
+export type { Logger } from "./src/logger.ts";
+export type { PathListOptions } from "./src/paths.ts";
+export type { RemoteInfo } from "./src/remotes.ts";
+export type { RepositoryTreeOptions } from "./src/repo_tree.ts";
+export type { GroupBy, SortKey } from "./src/sort.ts";
+export type { RepositoryState, RepositorySummary } from "./src/summary.ts";
+export { type ItemInfo, ItemType, type OutputFormat } from "./src/types.ts";
+
+export { formatItemInfoTree, formatLegend } from "./src/format.ts";
+export { formatHtmlReport } from "./src/html.ts";
+export { formatJsonDocument, formatNdjsonRecord } from "./src/json.ts";
+export { formatMarkdownReport } from "./src/markdown.ts";
+export { formatPathList } from "./src/paths.ts";
+export { arrangeTree, formatTree } from "./src/render.ts";
+export {
+  formatRunSummary,
+  getRepositoryState,
+  summarizeRepositories,
+} from "./src/summary.ts";
+export { collectRepositories } from "./src/walk.ts";
+
+export interface ScanOptions extends RepositoryTreeOptions {
+  /** Receives warnings and errors; defaults to `console`. */
+  log?: Logger;
+  /** Reuse and update the scan cache the command line uses. */
+  cache?: boolean;
+  /** Time limit for every git command. */
+  timeoutMs?: number;
+  /** Cancels every running and future git command when aborted. */
+  signal?: AbortSignal;
+}
+
+async function createRepositoryTree(
+  options: ScanOptions,
+): Promise<RepositoryTree> {
+  const log = options.log ?? console;
+  const fileSystem = new DenoFileSystem();
+  const gitService = new GitService(
+    fileSystem,
+    new DenoCommandRunner(),
+    log,
+    {
+      timeoutMs: options.timeoutMs,
+      networkTimeoutMs: options.timeoutMs,
+      signal: options.signal,
+    },
+  );
+
+  let cache: ScanCache | undefined;
+  if (options.cache) {
+    cache = new ScanCache(fileSystem, log, ScanCache.defaultPath());
+    await cache.load();
+  }
+  return new RepositoryTree(log, fileSystem, gitService, cache);
+}
+
+/**
+ * Scans the directory tree below `options.path`, or below each of
+ * `options.roots`, including the status of every repository.
+ * @param options The scan options.
+ * @returns The root of the tree, unfiltered.
+ * @throws If no root could be read; the reason is logged to `options.log`.
+ */
+export async function scanTree(options: ScanOptions = {}): Promise<ItemInfo> {
+  const repoTree = await createRepositoryTree(options);
+  const root = await repoTree.scan(options);
+  if (!root) {
+    throw new Error(
+      `Could not scan ${options.roots?.join(", ") || options.path || "."}`,
+    );
+  }
+  return root;
+}
+
+/**
+ * Yields every repository matching `options.filter` as soon as its status is
+ * known, while the rest of the tree is still being scanned. The children of
+ * a repository may not have been scanned yet when it is yielded.
+ * @param options The scan options.
+ * @returns The repositories in the order they were found.
+ */
+export async function* discoverRepositories(
+  options: ScanOptions = {},
+): AsyncGenerator<ItemInfo> {
+  const repoTree = await createRepositoryTree(options);
+  yield* repoTree.discover(options);
+}
@@ -0,0 +1,83 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import {
+  discoverRepositories,
+  formatTree,
+  ItemInfo,
+  ItemType,
+  scanTree,
+} from "./mod.ts";
+import {
+  createRepository,
+  silentLog,
+  withTempDir,
+} from "./test/test_helpers.ts";
+
+Deno.test("scanTree returns the tree with the status of every repository", async () => {
+  await withTempDir(async (dir) => {
+    await createRepository(join(dir, "app"));
+    await Deno.writeTextFile(join(dir, "app", "README.md"), "# edited\n");
+    await Deno.writeTextFile(join(dir, "notes.txt"), "");
+
+    const root = await scanTree({ path: dir, log: silentLog });
+    assertEquals(root.path, dir);
+    assertEquals(root.children.map((item) => item.name), ["app", "notes.txt"]);
+    const app = root.children[0];
+    assertEquals(app.type, ItemType.RepoDirectory);
+    assertEquals(app.gitStatus?.branch, "main");
+    assertEquals(app.gitStatus?.unstaged, 1);
+    assertEquals(
+      formatTree(root, { format: "paths", filter: { dirty: true } }),
+      "app\n",
+    );
+  });
+});
+
+Deno.test("scanTree rejects a path it cannot read", async () => {
+  await withTempDir(async (dir) => {
+    await assertRejects(
+      () => scanTree({ path: join(dir, "missing"), log: silentLog }),
+      Error,
+      `Could not scan ${join(dir, "missing")}`,
+    );
+  });
+});
+
+Deno.test("discoverRepositories yields every matching repository with its status", async () => {
+  await withTempDir(async (dir) => {
+    await createRepository(join(dir, "app"));
+    await createRepository(join(dir, "app", "vendor", "lib"));
+    await createRepository(join(dir, "tools"));
+    await Deno.writeTextFile(join(dir, "tools", "README.md"), "# edited\n");
+
+    const found: ItemInfo[] = [];
+    for await (
+      const repo of discoverRepositories({
+        path: dir,
+        depth: 5,
+        log: silentLog,
+      })
+    ) {
+      found.push(repo);
+    }
+    assertEquals(
+      found.map((repo) => repo.path).toSorted(),
+      [join(dir, "app"), join(dir, "app", "vendor", "lib"), join(dir, "tools")],
+    );
+    assert(found.every((repo) => repo.gitStatus?.branch === "main"));
+
+    const dirty: string[] = [];
+    for await (
+      const repo of discoverRepositories({
+        path: dir,
+        depth: 5,
+        log: silentLog,
+        filter: { dirty: true },
+      })
+    ) {
+      dirty.push(repo.name);
+    }
+    // The nested repository is untracked content of app, so app is dirty too.
+    assertEquals(dirty.toSorted(), ["app", "tools"]);
+  });
+});
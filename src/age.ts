@@ -0,0 +1,49 @@
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DURATION_UNITS: Record<string, number> = {
+  h: HOUR,
+  d: DAY,
+  w: 7 * DAY,
+  mo: 30 * DAY,
+  y: 365 * DAY,
+};
+
+/**
+ * Parses a duration such as `90d`, `12h`, `6w`, `3mo` or `1y`.
+ * @param text The duration as given on the command line.
+ * @returns The duration in milliseconds, or undefined if it is not valid.
+ */
+export function parseDuration(text: string): number | undefined {
+  const match = /^(\d+)(h|d|w|mo|y)$/.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+const AGE_UNITS: [string, number][] = [
+  ["year", 365 * DAY],
+  ["month", 30 * DAY],
+  ["week", 7 * DAY],
+  ["day", DAY],
+  ["hour", HOUR],
+  ["minute", 60 * 1000],
+];
+
+/**
+ * Describes how long ago something happened, e.g. `3 months ago`.
+ * @param date An ISO 8601 timestamp.
+ * @param now The current time in milliseconds since the epoch.
+ * @returns The age in the largest unit that fits.
+ */
+export function formatAge(date: string, now: number = Date.now()): string {
+  const elapsed = now - Date.parse(date);
+  for (const [unit, length] of AGE_UNITS) {
+    const count = Math.floor(elapsed / length);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+    }
+  }
+  return "just now";
+}
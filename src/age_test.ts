@@ -0,0 +1,23 @@
+import { assertEquals } from "@std/assert";
+import { formatAge, parseDuration } from "./age.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+Deno.test("parseDuration accepts hours, days, weeks, months and years", () => {
+  assertEquals(parseDuration("12h"), DAY / 2);
+  assertEquals(parseDuration("90d"), 90 * DAY);
+  assertEquals(parseDuration("2w"), 14 * DAY);
+  assertEquals(parseDuration("3mo"), 90 * DAY);
+  assertEquals(parseDuration("1y"), 365 * DAY);
+  assertEquals(parseDuration("90"), undefined);
+  assertEquals(parseDuration("-1d"), undefined);
+});
+
+Deno.test("formatAge uses the largest unit that fits", () => {
+  const now = Date.parse("2024-06-30T12:00:00Z");
+  assertEquals(formatAge("2024-06-30T11:59:30Z", now), "just now");
+  assertEquals(formatAge("2024-06-30T11:00:00Z", now), "1 hour ago");
+  assertEquals(formatAge("2024-06-27T12:00:00Z", now), "3 days ago");
+  assertEquals(formatAge("2024-03-30T12:00:00Z", now), "3 months ago");
+  assertEquals(formatAge("2022-01-01T00:00:00Z", now), "2 years ago");
+});
@@ -0,0 +1,108 @@
+export type ColorMode = "auto" | "always" | "never";
+
+export const COLOR_MODES: readonly ColorMode[] = ["auto", "always", "never"];
+
+export type ColorScheme = "dark" | "light";
+
+/**
+ * Semantic styles used by the renderers. Each one maps to an ANSI color
+ * that stays readable on the detected background.
+ */
+export type ItemStyle =
+  | "none"
+  | "file"
+  | "directory"
+  | "clean"
+  | "dirty"
+  | "unpushed"
+  | "bare"
+  | "error"
+  | "muted";
+
+const RESET = "\x1b[0m";
+
+const PALETTES: Record<ColorScheme, Record<ItemStyle, string>> = {
+  dark: {
+    none: "",
+    file: "",
+    directory: "\x1b[1;94m",
+    clean: "\x1b[92m",
+    dirty: "\x1b[91m",
+    unpushed: "\x1b[93m",
+    bare: "\x1b[96m",
+    error: "\x1b[95m",
+    muted: "\x1b[2m",
+  },
+  light: {
+    none: "",
+    file: "",
+    directory: "\x1b[1;34m",
+    clean: "\x1b[32m",
+    dirty: "\x1b[31m",
+    unpushed: "\x1b[33m",
+    bare: "\x1b[36m",
+    error: "\x1b[35m",
+    muted: "\x1b[2m",
+  },
+};
+
+/**
+ * Decides whether output should contain ANSI color codes.
+ * In `auto` mode colors are used only on a terminal, and never when
+ * `NO_COLOR` is set (https://no-color.org) or `TERM` is `dumb`. `FORCE_COLOR`
+ * overrides all of these: `0` or `false` turns colors off, anything else on.
+ * @param mode The requested color mode.
+ * @param env The environment to read `FORCE_COLOR`, `NO_COLOR` and `TERM`
+ * from.
+ * @param isTerminal Whether stdout is a terminal.
+ */
+export function shouldUseColor(
+  mode: ColorMode,
+  env: Pick<Deno.Env, "get"> = Deno.env,
+  isTerminal: boolean = Deno.stdout.isTerminal(),
+): boolean {
+  switch (mode) {
+    case "always":
+      return true;
+    case "never":
+      return false;
+    default: {
+      const force = env.get("FORCE_COLOR");
+      if (force !== undefined) {
+        return force !== "0" && force !== "false";
+      }
+      return isTerminal && !env.get("NO_COLOR") && env.get("TERM") !== "dumb";
+    }
+  }
+}
+
+/**
+ * Guesses the terminal background from `COLORFGBG` (e.g. `15;0`), which most
+ * terminals export. Falls back to a dark background.
+ * @param env The environment to read `COLORFGBG` from.
+ */
+export function detectColorScheme(
+  env: Pick<Deno.Env, "get"> = Deno.env,
+): ColorScheme {
+  const background = Number(env.get("COLORFGBG")?.split(";").pop());
+  // Colors 7 and 9-15 are light backgrounds in the 16-color palette.
+  if (background === 7 || (background >= 9 && background <= 15)) {
+    return "light";
+  }
+  return "dark";
+}
+
+/**
+ * Wraps text in the ANSI codes of a style.
+ * @param text The text to style.
+ * @param style The semantic style.
+ * @param scheme The color scheme to take the codes from.
+ */
+export function paint(
+  text: string,
+  style: ItemStyle,
+  scheme: ColorScheme,
+): string {
+  const code = PALETTES[scheme][style];
+  return code ? `${code}${text}${RESET}` : text;
+}
@@ -0,0 +1,64 @@
+import { assertEquals } from "@std/assert";
+import { detectColorScheme, paint, shouldUseColor } from "./ansi.ts";
+
+function envOf(vars: Record<string, string>): Pick<Deno.Env, "get"> {
+  return { get: (key) => vars[key] };
+}
+
+Deno.test("shouldUseColor in auto mode only colors a capable terminal", () => {
+  assertEquals(shouldUseColor("auto", envOf({}), true), true);
+  assertEquals(shouldUseColor("auto", envOf({ TERM: "xterm" }), true), true);
+  assertEquals(shouldUseColor("auto", envOf({}), false), false);
+  assertEquals(shouldUseColor("auto", envOf({ TERM: "dumb" }), true), false);
+  assertEquals(shouldUseColor("auto", envOf({ NO_COLOR: "1" }), true), false);
+  // An empty NO_COLOR does not count as set.
+  assertEquals(shouldUseColor("auto", envOf({ NO_COLOR: "" }), true), true);
+});
+
+Deno.test("shouldUseColor lets FORCE_COLOR override the terminal checks", () => {
+  for (const value of ["", "1", "true", "3"]) {
+    assertEquals(
+      shouldUseColor("auto", envOf({ FORCE_COLOR: value }), false),
+      true,
+    );
+  }
+  assertEquals(
+    shouldUseColor("auto", envOf({ FORCE_COLOR: "1", NO_COLOR: "1" }), true),
+    true,
+  );
+  assertEquals(
+    shouldUseColor("auto", envOf({ FORCE_COLOR: "1", TERM: "dumb" }), true),
+    true,
+  );
+  for (const value of ["0", "false"]) {
+    assertEquals(
+      shouldUseColor("auto", envOf({ FORCE_COLOR: value }), true),
+      false,
+    );
+  }
+});
+
+Deno.test("shouldUseColor follows --color always and never regardless of the environment", () => {
+  const noColor = envOf({ NO_COLOR: "1", TERM: "dumb", FORCE_COLOR: "0" });
+  assertEquals(shouldUseColor("always", noColor, false), true);
+  assertEquals(
+    shouldUseColor("never", envOf({ FORCE_COLOR: "1" }), true),
+    false,
+  );
+});
+
+Deno.test("detectColorScheme reads the background from COLORFGBG", () => {
+  assertEquals(detectColorScheme(envOf({})), "dark");
+  assertEquals(detectColorScheme(envOf({ COLORFGBG: "15;0" })), "dark");
+  assertEquals(detectColorScheme(envOf({ COLORFGBG: "0;15" })), "light");
+  assertEquals(detectColorScheme(envOf({ COLORFGBG: "0;7" })), "light");
+  assertEquals(detectColorScheme(envOf({ COLORFGBG: "0;default;8" })), "dark");
+  assertEquals(detectColorScheme(envOf({ COLORFGBG: "garbage" })), "dark");
+});
+
+Deno.test("paint wraps text in the codes of the scheme and resets after it", () => {
+  assertEquals(paint("app", "clean", "dark"), "\x1b[92mapp\x1b[0m");
+  assertEquals(paint("app", "clean", "light"), "\x1b[32mapp\x1b[0m");
+  assertEquals(paint("notes.txt", "file", "dark"), "notes.txt");
+  assertEquals(paint("x", "none", "light"), "x");
+});
@@ -0,0 +1,331 @@
+import { globToRegExp, relative } from "@std/path";
+import { matchesRepositoryFilter } from "./filter.ts";
+import { BranchInfo, DefaultBranch, GitService } from "./git.ts";
+import { DEFAULT_PROTECTED_BRANCHES } from "./git_branches.ts";
+import { Logger } from "./logger.ts";
+import { defaultConcurrency, WorkerPool } from "./pool.ts";
+import { RepositoryTree, RepositoryTreeOptions } from "./repo_tree.ts";
+import { ItemInfo } from "./types.ts";
+import { collectRepositories } from "./walk.ts";
+
+export interface BranchOverview {
+  path: string;
+  defaultBranch?: DefaultBranch;
+  branches: BranchInfo[];
+  /** Why the branches could not be listed. */
+  error?: string;
+}
+
+/**
+ * Why a branch can be deleted: merged into the default branch, or gone
+ * upstream without being merged, which loses its commits.
+ */
+export type PruneReason = "merged" | "gone";
+
+export type PruneOutcome = "would-delete" | "deleted" | "failed";
+
+export interface PruneResult {
+  path: string;
+  /** Undefined when the branches of the repository could not be listed. */
+  branch?: string;
+  reason?: PruneReason;
+  outcome: PruneOutcome;
+  message?: string;
+}
+
+export interface PruneOptions extends RepositoryTreeOptions {
+  /** Delete the branches; without it, only report what would be deleted. */
+  apply?: boolean;
+  /** Globs of branch names that are never deleted. */
+  protectedBranches?: string[];
+  /**
+   * Also delete branches whose upstream is gone although they are not
+   * merged, e.g. after a squash merge. Their commits are lost.
+   */
+  includeGone?: boolean;
+}
+
+function errorMessage(error: unknown): string {
+  return (Error.isError(error) ? error.message : String(error))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Decides whether a branch can be pruned. Branches that are checked out in
+ * any working tree, the default branch and protected branches never are;
+ * unmerged branches only when their upstream is gone and `includeGone` is set.
+ * @param branch The branch.
+ * @param overview The repository the branch belongs to.
+ * @param isProtected Tells whether a branch name is protected.
+ * @param includeGone Whether unmerged branches with a gone upstream are pruned.
+ * @returns Why the branch can be deleted, or undefined to keep it.
+ */
+export function pruneReason(
+  branch: BranchInfo,
+  overview: BranchOverview,
+  isProtected: (name: string) => boolean,
+  includeGone = false,
+): PruneReason | undefined {
+  if (
+    branch.current || branch.worktreePath !== undefined ||
+    branch.name === overview.defaultBranch?.name || isProtected(branch.name)
+  ) {
+    return undefined;
+  }
+  if (branch.merged) {
+    return "merged";
+  }
+  return includeGone && branch.gone ? "gone" : undefined;
+}
+
+/**
+ * Lists and prunes the local branches of every repository found by
+ * RepositoryTree.
+ */
+export class RepositoryBranches {
+  constructor(
+    private readonly _log: Logger,
+    private readonly _repoTree: RepositoryTree,
+    private readonly _git: GitService,
+  ) {
+  }
+
+  private async readBranches(repo: ItemInfo): Promise<BranchOverview> {
+    try {
+      const defaultBranch = await this._git.getDefaultBranch(repo.path);
+      const branches = await this._git.listBranches(
+        repo.path,
+        defaultBranch?.ref,
+      );
+      return { path: repo.path, defaultBranch, branches };
+    } catch (error) {
+      return { path: repo.path, branches: [], error: errorMessage(error) };
+    }
+  }
+
+  /**
+   * Scans for repositories that have branches of their own. Linked worktrees
+   * share the branches of their main repository and are left out when it is
+   * part of the scan too.
+   */
+  private async findRepositories(
+    options: RepositoryTreeOptions,
+  ): Promise<ItemInfo[]> {
+    const root = await this._repoTree.scan(options);
+    if (!root) {
+      return [];
+    }
+    const filter = options.filter ?? {};
+    const repositories = collectRepositories(root).filter((repo) =>
+      repo.repository?.kind !== "bare" && matchesRepositoryFilter(repo, filter)
+    );
+    const paths = new Set(repositories.map((repo) => repo.path));
+    return repositories.filter((repo) =>
+      repo.repository?.kind !== "worktree" ||
+      !paths.has(repo.repository.linkedRepository ?? "")
+    );
+  }
+
+  /**
+   * Discovers repositories below `options.path` and lists their branches.
+   * @param options The scan options.
+   * @returns One overview per repository, in tree order.
+   */
+  public async list(
+    options: RepositoryTreeOptions = {},
+  ): Promise<BranchOverview[]> {
+    const repositories = await this.findRepositories(options);
+    const pool = new WorkerPool(options.jobs ?? defaultConcurrency());
+    return await Promise.all(
+      repositories.map((repo) => pool.run(() => this.readBranches(repo))),
+    );
+  }
+
+  private async pruneRepository(
+    overview: BranchOverview,
+    options: PruneOptions,
+    isProtected: (name: string) => boolean,
+  ): Promise<PruneResult[]> {
+    if (overview.error !== undefined) {
+      return [{
+        path: overview.path,
+        outcome: "failed",
+        message: overview.error,
+      }];
+    }
+
+    const results: PruneResult[] = [];
+    // One branch at a time: deleting branches rewrites the shared packed-refs.
+    for (const branch of overview.branches) {
+      const reason = pruneReason(
+        branch,
+        overview,
+        isProtected,
+        options.includeGone,
+      );
+      if (reason === undefined) {
+        continue;
+      }
+      const result = { path: overview.path, branch: branch.name, reason };
+      if (!options.apply) {
+        results.push({ ...result, outcome: "would-delete" });
+        continue;
+      }
+      try {
+        await this._git.deleteBranch(overview.path, branch.name);
+        results.push({ ...result, outcome: "deleted" });
+      } catch (error) {
+        results.push({
+          ...result,
+          outcome: "failed",
+          message: errorMessage(error),
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Deletes branches that are merged into the default branch, and with
+   * `options.includeGone` those whose upstream is gone, in every repository
+   * below `options.path`. Nothing is deleted unless `options.apply` is set.
+   * @param options The scan and prune options.
+   * @returns One result per branch, in tree order.
+   */
+  public async prune(options: PruneOptions = {}): Promise<PruneResult[]> {
+    const protectedBranches = (options.protectedBranches ??
+      DEFAULT_PROTECTED_BRANCHES).map((pattern) =>
+        globToRegExp(pattern, { extended: true })
+      );
+    const isProtected = (name: string) =>
+      protectedBranches.some((pattern) => pattern.test(name));
+
+    const overviews = await this.list(options);
+    this._log.info(
+      `${
+        options.apply ? "Pruning" : "Checking"
+      } branches in ${overviews.length} repositories...`,
+    );
+    const pool = new WorkerPool(options.jobs ?? defaultConcurrency());
+    const results = await Promise.all(
+      overviews.map((overview) =>
+        pool.run(() => this.pruneRepository(overview, options, isProtected))
+      ),
+    );
+    return results.flat();
+  }
+}
+
+function formatBranchState(branch: BranchInfo): string {
+  const states: string[] = [];
+  if (branch.merged) {
+    states.push("merged");
+  }
+  if (branch.gone) {
+    states.push("gone");
+  } else if (branch.upstream === undefined) {
+    states.push("no upstream");
+  }
+  const counts = [
+    branch.ahead > 0 ? `↑${branch.ahead}` : "",
+    branch.behind > 0 ? `↓${branch.behind}` : "",
+  ].filter(Boolean).join(" ");
+  if (counts) {
+    states.push(counts);
+  }
+  return states.join(", ");
+}
+
+/**
+ * Formats branch overviews as one block per repository, marking the current
+ * branch with `*` and branches checked out in another worktree with `+`.
+ * @param overviews The result of {@link RepositoryBranches.list}.
+ * @param rootPath Repository paths are shown relative to this directory.
+ * @returns The rendered view.
+ */
+export function formatBranchesView(
+  overviews: BranchOverview[],
+  rootPath: string,
+): string {
+  const lines: string[] = [];
+  for (const overview of overviews) {
+    const path = relative(rootPath, overview.path) || ".";
+    if (overview.error !== undefined) {
+      lines.push(`${path}  ⚠ ${overview.error}`);
+      continue;
+    }
+    // The local name, whether or not the remote has a HEAD to compare with.
+    lines.push(
+      overview.defaultBranch
+        ? `${path} (default: ${overview.defaultBranch.name})`
+        : `${path} (no default branch)`,
+    );
+
+    const nameWidth = Math.max(
+      0,
+      ...overview.branches.map((branch) => branch.name.length),
+    );
+    const upstreamWidth = Math.max(
+      0,
+      ...overview.branches.map((branch) => branch.upstream?.length ?? 0),
+    );
+    for (const branch of overview.branches) {
+      const marker = branch.current
+        ? "*"
+        : branch.worktreePath !== undefined
+        ? "+"
+        : " ";
+      const columns = [branch.name.padEnd(nameWidth)];
+      if (upstreamWidth > 0) {
+        columns.push((branch.upstream ?? "").padEnd(upstreamWidth));
+      }
+      columns.push(formatBranchState(branch));
+      lines.push(`  ${marker} ${columns.join("  ")}`.trimEnd());
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats prune results as a plain-text table with one row per branch,
+ * followed by the totals.
+ * @param results The result of {@link RepositoryBranches.prune}.
+ * @param rootPath Paths are shown relative to this directory.
+ * @param applied Whether the branches were deleted or only listed.
+ * @returns The table, one line per row.
+ */
+export function formatPruneTable(
+  results: PruneResult[],
+  rootPath: string,
+  applied: boolean,
+): string {
+  if (results.length === 0) {
+    return "No branches to prune.";
+  }
+  const rows = results.map((result) => [
+    relative(rootPath, result.path) || ".",
+    result.branch ?? "",
+    result.reason ?? "",
+    result.outcome,
+    result.message ?? "",
+  ]);
+  const header = ["REPOSITORY", "BRANCH", "REASON", "RESULT", "DETAILS"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const table = [header, ...rows].map((row) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join("  ")
+      .trimEnd()
+  );
+
+  const count = (outcome: PruneOutcome) =>
+    results.filter((result) => result.outcome === outcome).length;
+  const totals = applied
+    ? `${count("deleted")} deleted, ${count("failed")} failed`
+    : `${count("would-delete")} would be deleted, ${
+      count("failed")
+    } failed; run again with --apply to delete them.`;
+
+  return [...table, "", totals].join("\n");
+}
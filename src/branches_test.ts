@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import { BranchOverview, formatBranchesView, pruneReason } from "./branches.ts";
+import { BranchInfo } from "./git.ts";
+
+function branch(name: string, fields: Partial<BranchInfo> = {}): BranchInfo {
+  return {
+    name,
+    gone: false,
+    ahead: 0,
+    behind: 0,
+    current: false,
+    merged: false,
+    ...fields,
+  };
+}
+
+Deno.test("pruneReason keeps checked out, default and protected branches", () => {
+  const overview: BranchOverview = {
+    path: "/src/app",
+    defaultBranch: { name: "trunk", ref: "origin/trunk" },
+    branches: [],
+  };
+  const isProtected = (name: string) => name.startsWith("release/");
+
+  const reasons = [
+    branch("done", { merged: true }),
+    branch("merged-gone", { merged: true, gone: true }),
+    branch("squashed", { gone: true }),
+    branch("wip"),
+    branch("trunk", { merged: true, current: true, worktreePath: "/src/app" }),
+    branch("review", { merged: true, worktreePath: "/src/app-review" }),
+    branch("release/1", { merged: true }),
+  ].map((candidate) => pruneReason(candidate, overview, isProtected));
+
+  assertEquals(reasons, [
+    "merged",
+    "merged",
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+  ]);
+});
+
+Deno.test("pruneReason keeps unmerged gone branches unless asked to prune them", () => {
+  const overview: BranchOverview = {
+    path: "/src/app",
+    defaultBranch: { name: "main", ref: "origin/main" },
+    branches: [],
+  };
+  const squashed = branch("squashed", { gone: true, ahead: 2 });
+  const isProtected = () => false;
+
+  assertEquals(pruneReason(squashed, overview, isProtected), undefined);
+  assertEquals(pruneReason(squashed, overview, isProtected, true), "gone");
+  assertEquals(
+    pruneReason(branch("wip"), overview, isProtected, true),
+    undefined,
+  );
+});
+
+Deno.test("formatBranchesView names the local default branch of every repository", () => {
+  const overviews: BranchOverview[] = [
+    {
+      path: "/src/app",
+      defaultBranch: { name: "main", ref: "origin/main" },
+      branches: [
+        branch("feature", { upstream: "origin/feature", ahead: 2 }),
+        branch("main", { upstream: "origin/main", current: true }),
+      ],
+    },
+    {
+      path: "/src/local",
+      defaultBranch: { name: "master", ref: "master" },
+      branches: [branch("master", { current: true })],
+    },
+    { path: "/src/empty", branches: [] },
+    { path: "/src/broken", branches: [], error: "Git for-each-ref failed" },
+  ];
+
+  assertEquals(formatBranchesView(overviews, "/src").split("\n"), [
+    "app (default: main)",
+    "    feature  origin/feature  ↑2",
+    "  * main     origin/main",
+    "local (default: master)",
+    "  * master  no upstream",
+    "empty (no default branch)",
+    "broken  ⚠ Git for-each-ref failed",
+  ]);
+});
@@ -0,0 +1,160 @@
+import { dirname, join } from "@std/path";
+import { FileSystem } from "./file_system.ts";
+import { LastCommit, RepositoryInfo } from "./git.ts";
+import { GitStatus } from "./git_status.ts";
+import { Logger } from "./logger.ts";
+import { RemoteInfo } from "./remotes.ts";
+
+/** Bump whenever the shape of the cache file changes; older files are discarded. */
+const CACHE_VERSION = 3;
+
+export interface CachedEntry {
+  name: string;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymlink: boolean;
+}
+
+export interface CachedStatus {
+  indexMtime: number | null;
+  headMtime: number | null;
+  ignoreUntracked: boolean;
+  gitStatus: GitStatus;
+}
+
+export interface CachedRemotes {
+  configMtime: number | null;
+  remotes: RemoteInfo[];
+}
+
+export interface CachedLastCommit {
+  reflogMtime: number | null;
+  headMtime: number | null;
+  lastCommit: LastCommit | null;
+}
+
+/**
+ * Everything remembered about one directory. The record is only reused
+ * while the directory's mtime is unchanged.
+ */
+export interface CachedDirectory {
+  mtime: number | null;
+  /** Raw readDir result, before hidden entries are filtered out. */
+  entries?: CachedEntry[];
+  /** Detected repository, or null once the directory is known not to be one. */
+  repository?: RepositoryInfo | null;
+  /** Last git status; only valid while `.git/index` and `HEAD` are unchanged. */
+  status?: CachedStatus;
+  /** Remotes; only valid while the repository's `config` is unchanged. */
+  remotes?: CachedRemotes;
+  /** Last commit; only valid while `HEAD` and its reflog are unchanged. */
+  lastCommit?: CachedLastCommit;
+}
+
+interface CacheFile {
+  version: number;
+  directories: Record<string, CachedDirectory>;
+}
+
+/**
+ * On-disk cache of directory listings, repository locations, git status,
+ * remotes and last commits.
+ * A cached status is reused while `.git/index` and `HEAD` keep their mtimes,
+ * so it can go stale: editing a tracked file touches neither, and a fetch
+ * only moves refs. `--refresh` reads everything afresh.
+ */
+export class ScanCache {
+  private _directories = new Map<string, CachedDirectory>();
+  private readonly _touched = new Set<string>();
+
+  constructor(
+    private readonly _fileSystem: FileSystem,
+    private readonly _log: Logger,
+    private readonly _cachePath: string,
+  ) {
+  }
+
+  /**
+   * Returns the default cache location under `$XDG_CACHE_HOME` (or `~/.cache`).
+   * @param env The environment to read the variables from.
+   */
+  static defaultPath(env: Pick<Deno.Env, "get"> = Deno.env): string {
+    const cacheHome = env.get("XDG_CACHE_HOME") ??
+      join(env.get("HOME") ?? ".", ".cache");
+    return join(cacheHome, "repotree", "scan-cache.json");
+  }
+
+  async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await this._fileSystem.readTextFile(this._cachePath);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        this._log.warn(`Could not read cache ${this._cachePath}: ${error}`);
+      }
+      return;
+    }
+
+    try {
+      const file = JSON.parse(content) as CacheFile;
+      if (file.version === CACHE_VERSION) {
+        this._directories = new Map(Object.entries(file.directories));
+      }
+    } catch {
+      this._log.warn(`Ignoring corrupt cache ${this._cachePath}`);
+    }
+  }
+
+  /**
+   * Writes the cache back to disk. Records below the scan roots that were
+   * not visited during this run are dropped, since the directories are gone
+   * or no longer reachable.
+   * @param rootPaths The scan roots of the run that is being saved.
+   */
+  async save(rootPaths: readonly string[]): Promise<void> {
+    const directories: Record<string, CachedDirectory> = {};
+    for (const [path, record] of this._directories) {
+      const underRoot = rootPaths.some((rootPath) =>
+        path === rootPath || path.startsWith(`${rootPath}/`)
+      );
+      if (!underRoot || this._touched.has(path)) {
+        directories[path] = record;
+      }
+    }
+
+    const file: CacheFile = { version: CACHE_VERSION, directories };
+    try {
+      await this._fileSystem.mkdir(dirname(this._cachePath));
+      await this._fileSystem.writeTextFile(
+        this._cachePath,
+        JSON.stringify(file),
+      );
+    } catch (error) {
+      this._log.warn(`Could not write cache ${this._cachePath}: ${error}`);
+    }
+  }
+
+  /** Forgets every record, so the next scan repopulates the cache. */
+  clear(): void {
+    this._directories.clear();
+    this._touched.clear();
+  }
+
+  /**
+   * Returns the record for a directory, replacing it with an empty one if
+   * the directory changed since it was cached.
+   * @param path Absolute path of the directory.
+   * @param mtime Current modification time of the directory.
+   */
+  directory(path: string, mtime: number | null): CachedDirectory {
+    this._touched.add(path);
+    const record = this._directories.get(path);
+    if (record && record.mtime !== null && record.mtime === mtime) {
+      return record;
+    }
+
+    const fresh: CachedDirectory = { mtime };
+    this._directories.set(path, fresh);
+    return fresh;
+  }
+}
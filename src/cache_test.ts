@@ -0,0 +1,134 @@
+import { assert, assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { ScanCache } from "./cache.ts";
+import { DenoCommandRunner } from "./command_runner.ts";
+import { DenoFileSystem } from "./file_system.ts";
+import { GitService } from "./git.ts";
+import { Logger } from "./logger.ts";
+import { RepositoryTree } from "./repo_tree.ts";
+import { git, silentLog, withTempDir } from "../test/test_helpers.ts";
+
+Deno.test("ScanCache reuses a record only while the directory mtime is unchanged", () => {
+  const cache = new ScanCache(new DenoFileSystem(), silentLog, "/unused");
+  const record = cache.directory("/work", 100);
+  record.entries = [];
+
+  assert(cache.directory("/work", 100) === record);
+  const changed = cache.directory("/work", 200);
+  assertEquals(changed, { mtime: 200 });
+  assertEquals(cache.directory("/work", 200).entries, undefined);
+
+  // Without an mtime nothing tells whether the directory changed.
+  cache.directory("/unknown", null).entries = [];
+  assertEquals(cache.directory("/unknown", null), { mtime: null });
+});
+
+Deno.test("ScanCache keeps records outside the roots and drops unvisited ones", async () => {
+  await withTempDir(async (dir) => {
+    const cachePath = join(dir, "cache", "scan-cache.json");
+    const fileSystem = new DenoFileSystem();
+    const first = new ScanCache(fileSystem, silentLog, cachePath);
+    first.directory("/work/app", 1).entries = [];
+    first.directory("/work/gone", 1).entries = [];
+    first.directory("/other", 1).entries = [];
+    await first.save(["/work"]);
+
+    const second = new ScanCache(fileSystem, silentLog, cachePath);
+    await second.load();
+    second.directory("/work/app", 1);
+    await second.save(["/work"]);
+
+    const third = new ScanCache(fileSystem, silentLog, cachePath);
+    await third.load();
+    assertEquals(third.directory("/work/app", 1).entries, []);
+    assertEquals(third.directory("/other", 1).entries, []);
+    assertEquals(third.directory("/work/gone", 1).entries, undefined);
+  });
+});
+
+Deno.test("ScanCache ignores corrupt and outdated cache files", async () => {
+  await withTempDir(async (dir) => {
+    const warnings: string[] = [];
+    const log: Logger = {
+      info() {},
+      warn: (message) => warnings.push(String(message)),
+      error() {},
+    };
+    const cachePath = join(dir, "scan-cache.json");
+
+    await Deno.writeTextFile(cachePath, "{ not json");
+    const corrupt = new ScanCache(new DenoFileSystem(), log, cachePath);
+    await corrupt.load();
+    assertEquals(warnings, [`Ignoring corrupt cache ${cachePath}`]);
+    assertEquals(corrupt.directory("/work", 1), { mtime: 1 });
+
+    await Deno.writeTextFile(
+      cachePath,
+      JSON.stringify({
+        version: 1,
+        directories: { "/work": { mtime: 1, entries: [] } },
+      }),
+    );
+    const outdated = new ScanCache(new DenoFileSystem(), log, cachePath);
+    await outdated.load();
+    assertEquals(outdated.directory("/work", 1), { mtime: 1 });
+  });
+});
+
+Deno.test("a cached status is reused until the index, HEAD or options change", async () => {
+  await withTempDir(async (dir) => {
+    const workspace = join(dir, "workspace");
+    const repo = join(workspace, "app");
+    await Deno.mkdir(repo, { recursive: true });
+    await git(repo, "init", "--initial-branch=main");
+    await Deno.writeTextFile(join(repo, "tracked.txt"), "one\n");
+    await git(repo, "add", "tracked.txt");
+    await git(repo, "commit", "-m", "Initial commit");
+
+    const fileSystem = new DenoFileSystem();
+    const cachePath = join(dir, "scan-cache.json");
+    // `refresh` scans the way --refresh does: without loading the cache.
+    const scan = async (options = {}, refresh = false) => {
+      const cache = new ScanCache(fileSystem, silentLog, cachePath);
+      if (!refresh) {
+        await cache.load();
+      }
+      const repoTree = new RepositoryTree(
+        silentLog,
+        fileSystem,
+        new GitService(fileSystem, new DenoCommandRunner(), silentLog),
+        cache,
+      );
+      const root = await repoTree.scan({ path: workspace, ...options });
+      await cache.save([workspace]);
+      assert(root);
+      return root.children[0];
+    };
+
+    const clean = await scan();
+    assertEquals(clean.gitStatus?.hasWorkingChanges, false);
+
+    // Neither the index nor HEAD changes when a tracked file is edited, so
+    // the cached status is stale until --refresh.
+    await Deno.writeTextFile(join(repo, "tracked.txt"), "two\n");
+    assertEquals((await scan()).gitStatus?.unstaged, 0);
+    assertEquals((await scan({}, true)).gitStatus?.unstaged, 1);
+
+    await git(repo, "add", "tracked.txt");
+    const staged = await scan();
+    assertEquals(staged.gitStatus?.staged, 1);
+
+    // A status read with other options is not reused.
+    await Deno.writeTextFile(join(repo, "notes.txt"), "draft\n");
+    const ignoringUntracked = await scan({
+      repoOverrides: { app: { ignoreUntracked: true } },
+    });
+    assertEquals(ignoringUntracked.gitStatus?.untracked, 0);
+    assertEquals((await scan()).gitStatus?.untracked, 1);
+
+    await git(repo, "-c", "user.name=Other", "commit", "-m", "Edit");
+    const committed = await scan();
+    assertEquals(committed.gitStatus?.staged, 0);
+    assertEquals(committed.activity?.lastCommit?.author, "Other");
+  });
+});
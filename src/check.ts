@@ -0,0 +1,119 @@
+import { relative } from "@std/path";
+import { ItemInfo } from "./types.ts";
+import { collectRepositories } from "./walk.ts";
+
+/**
+ * Conditions under which a repository is not safe to throw away:
+ * - `dirty`: uncommitted changes, including untracked files
+ * - `unpushed`: commits the upstream does not have
+ * - `behind`: commits on the upstream that were not pulled
+ * - `stashed`: stash entries
+ * - `no-upstream`: the current branch tracks nothing
+ * - `no-remote`: no remote at all
+ * - `error`: the status could not be read
+ */
+export type CheckCondition =
+  | "dirty"
+  | "unpushed"
+  | "behind"
+  | "stashed"
+  | "no-upstream"
+  | "no-remote"
+  | "error";
+
+export const CHECK_CONDITIONS: readonly CheckCondition[] = [
+  "dirty",
+  "unpushed",
+  "behind",
+  "stashed",
+  "no-upstream",
+  "no-remote",
+  "error",
+];
+
+export const DEFAULT_CHECK_CONDITIONS: CheckCondition[] = [
+  "dirty",
+  "unpushed",
+  "stashed",
+  "error",
+];
+
+function matchesCondition(repo: ItemInfo, condition: CheckCondition): boolean {
+  const status = repo.gitStatus;
+  switch (condition) {
+    case "dirty":
+      return status?.hasWorkingChanges ?? false;
+    case "unpushed":
+      return (status?.ahead ?? 0) > 0;
+    case "behind":
+      return (status?.behind ?? 0) > 0;
+    case "stashed":
+      return (status?.stashes ?? 0) > 0;
+    case "no-upstream":
+      return status !== undefined && !status.detached &&
+        status.upstream === undefined;
+    case "no-remote":
+      return repo.remotes?.length === 0;
+    case "error":
+      return repo.error !== undefined;
+  }
+}
+
+export interface CheckViolation {
+  path: string;
+  conditions: CheckCondition[];
+}
+
+/**
+ * Finds the repositories that match any of the given conditions.
+ * Bare repositories have no working tree and never match.
+ * @param root The root ItemInfo object.
+ * @param conditions The conditions that make a repository unsafe.
+ * @returns One entry per unsafe repository, in tree order.
+ */
+export function checkRepositories(
+  root: ItemInfo,
+  conditions: readonly CheckCondition[],
+): CheckViolation[] {
+  const violations: CheckViolation[] = [];
+  for (const repo of collectRepositories(root)) {
+    if (repo.repository?.kind === "bare") {
+      continue;
+    }
+    const matched = conditions.filter((condition) =>
+      matchesCondition(repo, condition)
+    );
+    if (matched.length > 0) {
+      violations.push({ path: repo.path, conditions: matched });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Formats check violations, one repository per line.
+ * @param violations The result of {@link checkRepositories}.
+ * @param conditions The conditions that were checked.
+ * @param rootPath Paths are shown relative to this directory.
+ * @returns The report.
+ */
+export function formatCheckReport(
+  violations: CheckViolation[],
+  conditions: readonly CheckCondition[],
+  rootPath: string,
+): string {
+  const checked = conditions.join(", ");
+  if (violations.length === 0) {
+    return `Check passed: no repository matched ${checked}.`;
+  }
+  return [
+    `Check failed: ${violations.length} ${
+      violations.length === 1 ? "repository" : "repositories"
+    } matched ${checked}.`,
+    ...violations.map((violation) =>
+      `  ${relative(rootPath, violation.path) || "."}: ${
+        violation.conditions.join(", ")
+      }`
+    ),
+  ].join("\n");
+}
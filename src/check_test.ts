@@ -0,0 +1,46 @@
+import { assertEquals } from "@std/assert";
+import { checkRepositories } from "./check.ts";
+import { emptyGitStatus } from "./git_status.ts";
+import { ItemInfo } from "./types.ts";
+import { directoryItem, repoItem, repoStatus } from "../test/item_fixtures.ts";
+
+/** A clean repository that tracks `origin/main`, unless `fields` change it. */
+function repo(name: string, fields: Partial<ItemInfo> = {}): ItemInfo {
+  return repoItem(`/work/${name}`, {
+    gitStatus: repoStatus({ upstream: "origin/main" }),
+    remotes: [{ name: "origin", url: "https://example.com/acme/app.git" }],
+    ...fields,
+  });
+}
+
+Deno.test("checkRepositories reports every matching condition", () => {
+  const root = directoryItem("/work", [
+    repo("clean"),
+    repo("dirty", {
+      gitStatus: {
+        ...emptyGitStatus(),
+        hasWorkingChanges: true,
+        ahead: 1,
+        untracked: 2,
+      },
+    }),
+    repo("local", { remotes: [] }),
+    repo("broken", { gitStatus: undefined, error: "Git status failed" }),
+    repo("archive.git", {
+      repository: { kind: "bare", gitDir: "/work/archive.git" },
+      gitStatus: undefined,
+      remotes: [],
+    }),
+  ]);
+
+  assertEquals(
+    checkRepositories(root, ["dirty", "unpushed", "no-upstream", "error"]),
+    [
+      { path: "/work/dirty", conditions: ["dirty", "unpushed", "no-upstream"] },
+      { path: "/work/broken", conditions: ["error"] },
+    ],
+  );
+  assertEquals(checkRepositories(root, ["no-remote"]), [
+    { path: "/work/local", conditions: ["no-remote"] },
+  ]);
+});
@@ -1,45 +1,518 @@
 import { parseArgs } from "@std/cli/parse-args";
+import { resolve } from "@std/path";
+import { parseDuration } from "./age.ts";
 import { RepositoryTree } from "./repo_tree.ts";
 import { GitService } from "./git.ts";
+import {
+  COLOR_MODES,
+  ColorMode,
+  detectColorScheme,
+  shouldUseColor,
+} from "./ansi.ts";
+import {
+  formatBranchesView,
+  formatPruneTable,
+  RepositoryBranches,
+} from "./branches.ts";
+import { ScanCache } from "./cache.ts";
+import {
+  CHECK_CONDITIONS,
+  CheckCondition,
+  checkRepositories,
+  DEFAULT_CHECK_CONDITIONS,
+  formatCheckReport,
+} from "./check.ts";
 import { DenoCommandRunner } from "./command_runner.ts";
+import {
+  formatExecGroup,
+  formatExecLine,
+  formatExecSummary,
+  RepositoryExec,
+} from "./exec.ts";
 import { DenoFileSystem } from "./file_system.ts";
+import {
+  ConfigLoader,
+  DEFAULT_CONFIG,
+  LoadedConfig,
+  mergeConfig,
+  RepoTreeConfig,
+} from "./config.ts";
+import { DISPLAY_MODES, DisplayMode } from "./format.ts";
+import { defaultConcurrency } from "./pool.ts";
+import { formatRemotesView, groupRepositoriesByRemote } from "./remotes.ts";
+import { commonParentPath } from "./roots.ts";
+import { GROUP_BY_KEYS, GroupBy, SORT_KEYS, SortKey } from "./sort.ts";
+import { formatSyncTable, RepositorySync } from "./sync.ts";
+import { RepositoryWatcher } from "./watch.ts";
+import { OUTPUT_FORMATS, OutputFormat } from "./types.ts";
 
 const args = parseArgs(Deno.args, {
-  string: ["path", "skip", "depth"],
-  boolean: ["include-hidden"],
+  string: [
+    "path",
+    "skip",
+    "exclude",
+    "include",
+    "depth",
+    "format",
+    "jobs",
+    "branch",
+    "color",
+    "display",
+    "sort",
+    "group-by",
+    "older-than",
+    "newer-than",
+    "timeout",
+    "check",
+    "protect",
+  ],
+  boolean: [
+    "include-hidden",
+    "repos-only",
+    "collapse-repos",
+    "pull",
+    "force",
+    "dirty",
+    "unpushed",
+    "behind",
+    "no-upstream",
+    "no-cache",
+    "refresh",
+    "watch",
+    "icons",
+    "legend",
+    "show-remotes",
+    "follow-symlinks",
+    "respect-gitignore",
+    "show-ignored",
+    "no-summary",
+    "dirs-first",
+    "fail-fast",
+    "keep-going",
+    "group",
+    "absolute",
+    "null",
+    "status",
+    "apply",
+    "doctor",
+    "include-gone",
+  ],
+  // --path, --exclude and --include can be given more than once.
+  collect: ["path", "exclude", "include"],
   alias: {
     p: "path",
     d: "depth",
     s: "skip",
     i: "include-hidden",
+    f: "format",
+    r: "repos-only",
+    c: "collapse-repos",
+    j: "jobs",
+    w: "watch",
+    "0": "null",
   },
+  // Everything after `--` is the command for `exec`.
+  "--": true,
   default: {
-    path: Deno.cwd(),
-    depth: 10,
-    skip: "node_modules,build,.gradle,.git", // flags handles string for default
     "include-hidden": false,
+    "repos-only": false,
+    "collapse-repos": false,
+    jobs: String(defaultConcurrency()),
+    pull: false,
+    force: false,
+    dirty: false,
+    unpushed: false,
+    behind: false,
+    "no-upstream": false,
+    "no-cache": false,
+    refresh: false,
+    watch: false,
+    icons: false,
+    legend: false,
+    "show-remotes": false,
+    "follow-symlinks": false,
+    "respect-gitignore": false,
+    "show-ignored": false,
+    "no-summary": false,
+    "dirs-first": false,
+    "fail-fast": false,
+    "keep-going": false,
+    group: false,
+    absolute: false,
+    null: false,
+    status: false,
+    apply: false,
+    doctor: false,
+    "include-gone": false,
+    color: "auto",
+    display: "status",
+    sort: "name",
+    "group-by": "none",
   },
 });
 
-// Process the 'skip' argument from a comma-separated string to an array
-const skipDirectories = (args.skip as string)
-  .split(",")
-  .map((s) => s.trim())
-  .filter(Boolean);
+const jobs = Number(args.jobs);
+if (!Number.isInteger(jobs) || jobs < 1) {
+  console.error(
+    `Invalid --jobs value '${args.jobs}'. Expected a positive integer.`,
+  );
+  Deno.exit(2);
+}
+
+// A bare `--color` means "always", like in most CLI tools.
+const colorMode = (args.color === "" ? "always" : args.color) as ColorMode;
+if (!COLOR_MODES.includes(colorMode)) {
+  console.error(
+    `Invalid --color value '${args.color}'. Expected one of: ${
+      COLOR_MODES.join(", ")
+    }`,
+  );
+  Deno.exit(2);
+}
+
+const displayMode = args.display as DisplayMode;
+if (!DISPLAY_MODES.includes(displayMode)) {
+  console.error(
+    `Invalid --display value '${args.display}'. Expected one of: ${
+      DISPLAY_MODES.join(", ")
+    }`,
+  );
+  Deno.exit(2);
+}
+
+const sortKey = args.sort as SortKey;
+if (!SORT_KEYS.includes(sortKey)) {
+  console.error(
+    `Invalid --sort value '${args.sort}'. Expected one of: ${
+      SORT_KEYS.join(", ")
+    }`,
+  );
+  Deno.exit(2);
+}
+
+const groupBy = args["group-by"] as GroupBy;
+if (!GROUP_BY_KEYS.includes(groupBy)) {
+  console.error(
+    `Invalid --group-by value '${args["group-by"]}'. Expected one of: ${
+      GROUP_BY_KEYS.join(", ")
+    }`,
+  );
+  Deno.exit(2);
+}
+
+const ageFilters: Record<string, number | undefined> = {};
+for (const flag of ["older-than", "newer-than"]) {
+  const value = args[flag] as string | undefined;
+  if (value === undefined) {
+    continue;
+  }
+  ageFilters[flag] = parseDuration(value);
+  if (ageFilters[flag] === undefined) {
+    console.error(
+      `Invalid --${flag} value '${value}'. Expected a duration such as 90d, 12h, 6w, 3mo or 1y.`,
+    );
+    Deno.exit(2);
+  }
+}
+
+// --timeout is in seconds and applies to every git command, local or remote.
+let timeoutMs: number | undefined;
+if (args.timeout !== undefined) {
+  timeoutMs = Number(args.timeout) * 1000;
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    console.error(
+      `Invalid --timeout value '${args.timeout}'. Expected a positive number of seconds.`,
+    );
+    Deno.exit(2);
+  }
+}
+
+const cliPaths = (args.path as string[]).map((path) => resolve(path));
+const cliExclude = args.exclude as string[];
+const cliInclude = args.include as string[];
+
+// Only flags that were actually given override the config files.
+const cliConfig: RepoTreeConfig = {
+  path: cliPaths.length > 1 ? cliPaths : cliPaths[0],
+  depth: args.depth !== undefined ? Number(args.depth) : undefined,
+  // Process the 'skip' argument from a comma-separated string to an array
+  skip: args.skip !== undefined
+    ? (args.skip as string).split(",").map((s) => s.trim()).filter(Boolean)
+    : undefined,
+  exclude: cliExclude.length > 0 ? cliExclude : undefined,
+  include: cliInclude.length > 0 ? cliInclude : undefined,
+  format: args.format as OutputFormat | undefined,
+  // A bare `--check` uses the conditions from the config files.
+  check: args.check
+    ? (args.check as string).split(",").map((s) => s.trim()).filter(Boolean)
+      .map((condition) => condition as CheckCondition)
+    : undefined,
+  protectedBranches: args.protect !== undefined
+    ? (args.protect as string).split(",").map((s) => s.trim()).filter(Boolean)
+    : undefined,
+};
+
+if (cliConfig.depth !== undefined && !Number.isInteger(cliConfig.depth)) {
+  console.error(`Invalid --depth value '${args.depth}'. Expected an integer.`);
+  Deno.exit(2);
+}
+const unknownCondition = cliConfig.check?.find((condition) =>
+  !CHECK_CONDITIONS.includes(condition)
+);
+if (unknownCondition !== undefined) {
+  console.error(
+    `Unknown check condition '${unknownCondition}'. Expected one of: ${
+      CHECK_CONDITIONS.join(", ")
+    }`,
+  );
+  Deno.exit(2);
+}
+if (cliConfig.format && !OUTPUT_FORMATS.includes(cliConfig.format)) {
+  console.error(
+    `Unknown format '${cliConfig.format}'. Expected one of: ${
+      OUTPUT_FORMATS.join(", ")
+    }`,
+  );
+  Deno.exit(2);
+}
 
 const fileSystem = new DenoFileSystem();
 const commandRunner = new DenoCommandRunner();
-const gitService = new GitService(fileSystem, commandRunner);
+const gitService = new GitService(fileSystem, commandRunner, console, {
+  timeoutMs,
+  networkTimeoutMs: timeoutMs,
+});
+
+let cache: ScanCache | undefined;
+if (!args["no-cache"]) {
+  cache = new ScanCache(fileSystem, console, ScanCache.defaultPath());
+  // --refresh ignores what is on disk but still writes the fresh results.
+  if (!args.refresh) {
+    await cache.load();
+  }
+}
 
 const repoTree = new RepositoryTree(
   console,
   fileSystem,
   gitService,
+  cache,
 );
 
-await repoTree.show({
-  path: args.path as string,
-  depth: args.depth as number,
-  skipDirectories: new Set(skipDirectories),
+let loadedConfig: LoadedConfig;
+try {
+  loadedConfig = await new ConfigLoader(fileSystem).load(
+    cliPaths.length > 0 ? commonParentPath(cliPaths) : Deno.cwd(),
+  );
+} catch (error) {
+  console.error(Error.isError(error) ? error.message : String(error));
+  Deno.exit(2);
+}
+
+const config = mergeConfig(DEFAULT_CONFIG, loadedConfig.config, cliConfig);
+
+const command = String(args._[0] ?? "show");
+
+// Several roots are shown under their closest common parent, and paths in
+// reports are relative to it.
+const roots = [config.path ?? Deno.cwd()].flat();
+
+const treeOptions = {
+  path: commonParentPath(roots),
+  roots,
+  depth: config.depth,
+  skip: config.skip,
+  exclude: config.exclude,
+  include: config.include,
   includeHidden: args["include-hidden"] as boolean,
-});
+  format: config.format,
+  reposOnly: args["repos-only"] as boolean,
+  collapseRepos: args["collapse-repos"] as boolean,
+  jobs,
+  repoOverrides: config.repos,
+  followSymlinks: args["follow-symlinks"] as boolean,
+  respectGitignore: args["respect-gitignore"] as boolean,
+  showIgnored: args["show-ignored"] as boolean,
+  sort: sortKey,
+  dirsFirst: args["dirs-first"] as boolean,
+  groupBy,
+  summary: !args["no-summary"],
+  doctor: args.doctor as boolean,
+  paths: {
+    absolute: args.absolute as boolean,
+    nullSeparated: args.null as boolean,
+    status: args.status as boolean,
+  },
+  display: {
+    mode: displayMode,
+    color: shouldUseColor(colorMode),
+    scheme: detectColorScheme(),
+    icons: args.icons as boolean,
+    legend: args.legend as boolean,
+    remotes: args["show-remotes"] as boolean,
+  },
+  filter: {
+    dirty: args.dirty as boolean,
+    unpushed: args.unpushed as boolean,
+    behind: args.behind as boolean,
+    branch: args.branch as string | undefined,
+    noUpstream: args["no-upstream"] as boolean,
+    olderThan: ageFilters["older-than"],
+    newerThan: ageFilters["newer-than"],
+  },
+};
+
+switch (command) {
+  case "show":
+    if (args.watch) {
+      const watcher = new RepositoryWatcher(console, fileSystem, repoTree);
+      await watcher.watch(treeOptions, (root) => {
+        if (treeOptions.format === "tree") {
+          console.clear();
+        }
+        repoTree.render(root, treeOptions);
+        if (treeOptions.format === "tree") {
+          console.log(
+            `\nWatching ${root.path}, updated ${
+              new Date().toLocaleTimeString()
+            } (Ctrl+C to exit)`,
+          );
+        }
+      });
+    } else {
+      const root = await repoTree.show(treeOptions);
+      if (args.check !== undefined) {
+        // A gate must not pass when there was nothing to check; the scan has
+        // already logged why.
+        if (!root) {
+          console.error("Check failed: the tree could not be scanned.");
+          Deno.exit(1);
+        }
+        const conditions = config.check ?? DEFAULT_CHECK_CONDITIONS;
+        const violations = checkRepositories(root, conditions);
+        console.error(
+          formatCheckReport(violations, conditions, resolve(treeOptions.path)),
+        );
+        if (violations.length > 0) {
+          Deno.exit(1);
+        }
+      }
+    }
+    break;
+  case "sync": {
+    const repoSync = new RepositorySync(console, repoTree, gitService);
+    const results = await repoSync.sync({
+      ...treeOptions,
+      pull: args.pull as boolean,
+      force: args.force as boolean,
+    });
+    console.log(formatSyncTable(results, resolve(treeOptions.path)));
+    if (results.some((result) => result.outcome === "failed")) {
+      Deno.exit(1);
+    }
+    break;
+  }
+  case "remotes": {
+    const root = await repoTree.scan(treeOptions);
+    if (!root) {
+      break;
+    }
+    const groups = groupRepositoriesByRemote(root);
+    if (treeOptions.format === "json") {
+      console.log(JSON.stringify(groups, null, 2));
+    } else {
+      console.log(formatRemotesView(groups, resolve(treeOptions.path)));
+    }
+    break;
+  }
+  case "branches": {
+    const repoBranches = new RepositoryBranches(console, repoTree, gitService);
+    const overviews = await repoBranches.list(treeOptions);
+    if (treeOptions.format === "json") {
+      console.log(JSON.stringify(overviews, null, 2));
+    } else {
+      console.log(formatBranchesView(overviews, resolve(treeOptions.path)));
+    }
+    break;
+  }
+  case "prune-branches": {
+    const repoBranches = new RepositoryBranches(console, repoTree, gitService);
+    const apply = args.apply as boolean;
+    const results = await repoBranches.prune({
+      ...treeOptions,
+      apply,
+      protectedBranches: config.protectedBranches,
+      includeGone: args["include-gone"] as boolean,
+    });
+    console.log(formatPruneTable(results, resolve(treeOptions.path), apply));
+    if (results.some((result) => result.outcome === "failed")) {
+      Deno.exit(1);
+    }
+    break;
+  }
+  case "exec": {
+    const execCommand = (args["--"] ?? []).map(String);
+    if (execCommand.length === 0) {
+      console.error("Missing command. Usage: exec [options] -- <command...>");
+      Deno.exit(2);
+    }
+    // Running the command in every repository is the default; --keep-going
+    // only states that explicitly, so it contradicts --fail-fast.
+    if (args["fail-fast"] && args["keep-going"]) {
+      console.error("--fail-fast and --keep-going cannot be combined.");
+      Deno.exit(2);
+    }
+
+    // The show-tree task only allows running git; the exec task allows any
+    // command.
+    const rootPath = resolve(treeOptions.path);
+    const repoExec = new RepositoryExec(console, repoTree, commandRunner);
+    const execOptions = {
+      ...treeOptions,
+      command: execCommand,
+      failFast: args["fail-fast"] as boolean,
+    };
+    // Grouped output is printed once a repository is done, so blocks from
+    // different repositories do not interleave; prefixed lines are printed
+    // as soon as they are written.
+    const results = args.group
+      ? await repoExec.exec(execOptions, (result) => {
+        const output = formatExecGroup(result, rootPath);
+        console.log(output.stdout);
+        if (output.stderr) {
+          console.error(output.stderr);
+        }
+      })
+      : await repoExec.exec(execOptions, undefined, (path, line, stream) => {
+        const prefixed = formatExecLine(path, line, rootPath);
+        if (stream === "stdout") {
+          console.log(prefixed);
+        } else {
+          console.error(prefixed);
+        }
+      });
+    console.log();
+    console.log(formatExecSummary(results, rootPath));
+    if (results.some((result) => result.code !== 0)) {
+      Deno.exit(1);
+    }
+    break;
+  }
+  case "config": {
+    const subcommand = String(args._[1] ?? "show");
+    if (subcommand !== "show") {
+      console.error(`Unknown config command '${subcommand}'. Expected: show`);
+      Deno.exit(2);
+    }
+    for (const source of loadedConfig.sources) {
+      console.error(`Loaded config from ${source}`);
+    }
+    console.log(JSON.stringify(config, null, 2));
+    break;
+  }
+  default:
+    console.error(
+      `Unknown command '${command}'. Expected one of: show, sync, exec, remotes, branches, prune-branches, config`,
+    );
+    Deno.exit(2);
+}
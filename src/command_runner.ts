@@ -8,29 +8,87 @@ export interface CommandResult {
 export interface CommandOptions {
   cwd?: string;
   env?: Record<string, string>;
+  /** Kill the command and reject if it runs longer than this. */
+  timeoutMs?: number;
+  /** Kill the command and reject when this signal is aborted. */
+  signal?: AbortSignal;
+  /**
+   * Called with every line of output as soon as the command writes it. The
+   * result still holds the complete output.
+   */
+  onLine?: (line: string, stream: OutputStream) => void;
 }
 
+export type OutputStream = "stdout" | "stderr";
+
 export interface CommandRunner {
   runCommand(args: string[], opts: CommandOptions): Promise<CommandResult>;
 }
 
+/** Reads a stream to the end, passing each complete line to `onLine`. */
+async function readOutput(
+  stream: ReadableStream<Uint8Array>,
+  name: OutputStream,
+  onLine?: (line: string, stream: OutputStream) => void,
+): Promise<string> {
+  let output = "";
+  let partialLine = "";
+  for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+    output += chunk;
+    if (onLine) {
+      const lines = (partialLine + chunk).split("\n");
+      partialLine = lines.pop()!;
+      lines.forEach((line) => onLine(line, name));
+    }
+  }
+  if (onLine && partialLine !== "") {
+    onLine(partialLine, name);
+  }
+  return output;
+}
+
 export class DenoCommandRunner implements CommandRunner {
-  async runCommand(args: string[], opts: CommandOptions): Promise<CommandResult> {
+  async runCommand(
+    args: string[],
+    opts: CommandOptions,
+  ): Promise<CommandResult> {
+    const timeout = opts.timeoutMs !== undefined
+      ? AbortSignal.timeout(opts.timeoutMs)
+      : undefined;
+    const signals = [opts.signal, timeout].filter((signal) =>
+      signal !== undefined
+    );
+
     const command = new Deno.Command(args[0], {
       args: args.slice(1),
+      // Nothing we run may wait for input, e.g. a credential prompt.
+      stdin: "null",
       stdout: "piped",
       stderr: "piped",
       cwd: opts.cwd,
       env: opts.env,
+      signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
     });
-    
-    const { stdout, stderr, code } = await command.output();
 
-    const decoder = new TextDecoder();
+    const child = command.spawn();
+    const [stdout, stderr, { code }] = await Promise.all([
+      readOutput(child.stdout, "stdout", opts.onLine),
+      readOutput(child.stderr, "stderr", opts.onLine),
+      child.status,
+    ]);
+
+    if (opts.signal?.aborted) {
+      throw opts.signal.reason;
+    }
+    if (timeout?.aborted) {
+      throw new Error(
+        `Command timed out after ${opts.timeoutMs} ms: ${args.join(" ")}`,
+      );
+    }
 
     return {
-      stdout: decoder.decode(stdout),
-      stderr: decoder.decode(stderr),
+      stdout,
+      stderr,
       success: code === 0,
       code,
     };
@@ -0,0 +1,73 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import { DenoCommandRunner } from "./command_runner.ts";
+import { withTempDir } from "../test/test_helpers.ts";
+
+Deno.test("DenoCommandRunner returns the output of a command", async () => {
+  const result = await new DenoCommandRunner().runCommand(
+    ["sh", "-c", "echo out; echo err >&2; exit 3"],
+    {},
+  );
+
+  assertEquals(result, {
+    stdout: "out\n",
+    stderr: "err\n",
+    success: false,
+    code: 3,
+  });
+});
+
+Deno.test("DenoCommandRunner kills a command that exceeds its timeout", async () => {
+  const started = Date.now();
+  await assertRejects(
+    () =>
+      new DenoCommandRunner().runCommand(["sleep", "10"], { timeoutMs: 100 }),
+    Error,
+    "timed out",
+  );
+  assertEquals(Date.now() - started < 5000, true);
+});
+
+Deno.test("DenoCommandRunner stops a command when its signal is aborted", async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(new Error("cancelled")), 100);
+  await assertRejects(
+    () =>
+      new DenoCommandRunner().runCommand(["sleep", "10"], {
+        signal: controller.signal,
+      }),
+    Error,
+    "cancelled",
+  );
+});
+
+Deno.test("DenoCommandRunner passes every line to onLine as it is written", async () => {
+  await withTempDir(async (dir) => {
+    // The command only goes on once its first line has been seen, so it
+    // times out if output is not passed on before it exits.
+    const seen = join(dir, "seen");
+    const lines: string[] = [];
+    const result = await new DenoCommandRunner().runCommand(
+      [
+        "sh",
+        "-c",
+        `echo one; echo two >&2; while [ ! -f "${seen}" ]; do sleep 0.01; done; printf three`,
+      ],
+      {
+        timeoutMs: 5000,
+        onLine: (line, stream) => {
+          lines.push(`${stream}: ${line}`);
+          Deno.writeTextFileSync(seen, "");
+        },
+      },
+    );
+
+    assertEquals(lines.toSorted(), [
+      "stderr: two",
+      "stdout: one",
+      "stdout: three",
+    ]);
+    assertEquals(result.stdout, "one\nthree");
+    assertEquals(result.stderr, "two\n");
+  });
+});
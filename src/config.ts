@@ -0,0 +1,333 @@
+import {
+  dirname,
+  globToRegExp,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from "@std/path";
+import { parse as parseToml } from "@std/toml";
+import {
+  CHECK_CONDITIONS,
+  CheckCondition,
+  DEFAULT_CHECK_CONDITIONS,
+} from "./check.ts";
+import { FileSystem } from "./file_system.ts";
+import { DEFAULT_PROTECTED_BRANCHES } from "./git_branches.ts";
+import { OUTPUT_FORMATS, OutputFormat } from "./types.ts";
+
+/** Per-repository rules, keyed in the config by a path glob. */
+export interface RepoOverride {
+  /** Never report this repository. */
+  ignore?: boolean;
+  /** Leave untracked files out of the repository's status. */
+  ignoreUntracked?: boolean;
+}
+
+export interface RepoTreeConfig {
+  /**
+   * Default scan root, or several of them, resolved against the directory of
+   * the config file.
+   */
+  path?: string | string[];
+  depth?: number;
+  /** Patterns of directories that are listed but never descended into. */
+  skip?: string[];
+  /** Gitignore-style patterns of paths to leave out of the tree. */
+  exclude?: string[];
+  /** When not empty, only paths matching these patterns are listed. */
+  include?: string[];
+  format?: OutputFormat;
+  /**
+   * Overrides keyed by a glob matched against the repository path relative
+   * to the scan root, or against the absolute path for absolute globs.
+   */
+  repos?: Record<string, RepoOverride>;
+  /** Conditions that make `--check` fail when no others are given. */
+  check?: CheckCondition[];
+  /** Globs of branch names `prune-branches` never deletes. */
+  protectedBranches?: string[];
+}
+
+export interface LoadedConfig {
+  config: RepoTreeConfig;
+  /** Config files that were merged, from lowest to highest precedence. */
+  sources: string[];
+}
+
+export const CONFIG_FILE_NAMES = [".repotree.json", ".repotree.toml"];
+
+/** Every key a config file may set; anything else is most likely a typo. */
+const CONFIG_KEYS: readonly (keyof RepoTreeConfig)[] = [
+  "path",
+  "depth",
+  "skip",
+  "exclude",
+  "include",
+  "format",
+  "repos",
+  "check",
+  "protectedBranches",
+];
+
+const REPO_OVERRIDE_KEYS: readonly (keyof RepoOverride)[] = [
+  "ignore",
+  "ignoreUntracked",
+];
+
+/**
+ * Applies the flags `next` sets on top of `base`; flags it leaves unset keep
+ * their value from `base`.
+ */
+function mergeRepoOverride(
+  base: RepoOverride,
+  next: RepoOverride,
+): RepoOverride {
+  const merged = { ...base };
+  for (const key of REPO_OVERRIDE_KEYS) {
+    if (next[key] !== undefined) {
+      merged[key] = next[key];
+    }
+  }
+  return merged;
+}
+
+export const DEFAULT_CONFIG: Required<Omit<RepoTreeConfig, "path">> = {
+  depth: 10,
+  skip: ["node_modules", "build", ".gradle", ".git"],
+  exclude: [],
+  include: [],
+  format: "tree",
+  repos: {},
+  check: DEFAULT_CHECK_CONDITIONS,
+  protectedBranches: DEFAULT_PROTECTED_BRANCHES,
+};
+
+/**
+ * Merges config layers; later layers win, `repos` entries are merged by key.
+ * @param layers The configs from lowest to highest precedence.
+ * @returns The merged config.
+ */
+export function mergeConfig(...layers: RepoTreeConfig[]): RepoTreeConfig {
+  const merged: RepoTreeConfig = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && key !== "repos") {
+        Object.assign(merged, { [key]: value });
+      }
+    }
+    if (layer.repos) {
+      merged.repos = { ...merged.repos };
+      for (const [pattern, override] of Object.entries(layer.repos)) {
+        merged.repos[pattern] = mergeRepoOverride(
+          merged.repos[pattern] ?? {},
+          override,
+        );
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Combines every override whose glob matches the repository.
+ * @param overrides The `repos` section of the config.
+ * @param repoPath Absolute path of the repository.
+ * @param rootPath Absolute path of the scan root.
+ * @returns The combined override; empty if nothing matched.
+ */
+export function findRepoOverride(
+  overrides: Record<string, RepoOverride>,
+  repoPath: string,
+  rootPath: string,
+): RepoOverride {
+  const relativePath = relative(rootPath, repoPath) || ".";
+  let result: RepoOverride = {};
+  for (const [pattern, override] of Object.entries(overrides)) {
+    const target = isAbsolute(pattern) ? repoPath : relativePath;
+    if (globToRegExp(pattern, { extended: true }).test(target)) {
+      result = mergeRepoOverride(result, override);
+    }
+  }
+  return result;
+}
+
+function validateConfig(raw: unknown, source: string): RepoTreeConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config ${source}: ${message}`);
+  };
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return fail("expected an object at the top level");
+  }
+
+  const fields = raw as Record<string, unknown>;
+  const unknownKey = Object.keys(fields).find((key) =>
+    !CONFIG_KEYS.includes(key as keyof RepoTreeConfig)
+  );
+  if (unknownKey !== undefined) {
+    fail(`unknown key '${unknownKey}'`);
+  }
+  const { path, depth, format, repos, check } = fields;
+  const config: RepoTreeConfig = {};
+  const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+
+  if (path !== undefined) {
+    if (typeof path !== "string" && !isStringList(path)) {
+      fail("'path' must be a string or an array of strings");
+    }
+    config.path = typeof path === "string"
+      ? resolve(dirname(source), path)
+      : (path as string[]).map((root) => resolve(dirname(source), root));
+  }
+  if (depth !== undefined) {
+    if (!Number.isInteger(depth) || (depth as number) < 0) {
+      fail("'depth' must be a non-negative integer");
+    }
+    config.depth = depth as number;
+  }
+  for (
+    const key of ["skip", "exclude", "include", "protectedBranches"] as const
+  ) {
+    if (fields[key] !== undefined) {
+      if (!isStringList(fields[key])) {
+        fail(`'${key}' must be an array of strings`);
+      }
+      config[key] = fields[key] as string[];
+    }
+  }
+  if (format !== undefined) {
+    if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+      fail(`'format' must be one of: ${OUTPUT_FORMATS.join(", ")}`);
+    }
+    config.format = format as OutputFormat;
+  }
+  if (repos !== undefined) {
+    if (typeof repos !== "object" || repos === null || Array.isArray(repos)) {
+      fail("'repos' must be a table of path globs");
+    }
+    config.repos = {};
+    for (const [pattern, value] of Object.entries(repos as object)) {
+      if (typeof value !== "object" || value === null) {
+        fail(`'repos.${pattern}' must be a table of flags`);
+      }
+      const unknownFlag = Object.keys(value).find((key) =>
+        !REPO_OVERRIDE_KEYS.includes(key as keyof RepoOverride)
+      );
+      if (unknownFlag !== undefined) {
+        fail(`unknown key 'repos.${pattern}.${unknownFlag}'`);
+      }
+      const { ignore, ignoreUntracked } = value as RepoOverride;
+      if (
+        (ignore !== undefined && typeof ignore !== "boolean") ||
+        (ignoreUntracked !== undefined && typeof ignoreUntracked !== "boolean")
+      ) {
+        fail(`'repos.${pattern}' flags must be booleans`);
+      }
+      config.repos[pattern] = mergeRepoOverride({}, {
+        ignore,
+        ignoreUntracked,
+      });
+    }
+  }
+  if (check !== undefined) {
+    if (
+      !Array.isArray(check) ||
+      check.some((condition) => !CHECK_CONDITIONS.includes(condition))
+    ) {
+      fail(`'check' must be a list of: ${CHECK_CONDITIONS.join(", ")}`);
+    }
+    config.check = check as CheckCondition[];
+  }
+
+  return config;
+}
+
+/**
+ * Finds and merges `.repotree.json` / `.repotree.toml` files.
+ */
+export class ConfigLoader {
+  constructor(
+    private readonly _fileSystem: FileSystem,
+    private readonly _env: Pick<Deno.Env, "get"> = Deno.env,
+  ) {
+  }
+
+  private async readConfigFile(
+    path: string,
+  ): Promise<RepoTreeConfig | undefined> {
+    let content: string;
+    try {
+      content = await this._fileSystem.readTextFile(path);
+    } catch (error) {
+      if (
+        error instanceof Deno.errors.NotFound ||
+        error instanceof Deno.errors.PermissionDenied
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let raw: unknown;
+    try {
+      raw = path.endsWith(".toml") ? parseToml(content) : JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Could not parse config ${path}: ${error}`);
+    }
+    return validateConfig(raw, path);
+  }
+
+  /**
+   * Lists candidate config files from lowest to highest precedence:
+   * the user config directory, then every ancestor of `startPath` from the
+   * filesystem root down to `startPath` itself.
+   */
+  private candidatePaths(startPath: string): string[] {
+    const candidates: string[] = [];
+
+    const home = this._env.get("HOME");
+    const configHome = this._env.get("XDG_CONFIG_HOME") ??
+      (home ? join(home, ".config") : undefined);
+    if (configHome) {
+      candidates.push(
+        join(configHome, "repotree", "config.json"),
+        join(configHome, "repotree", "config.toml"),
+      );
+    }
+
+    const directories: string[] = [];
+    let current = resolve(startPath);
+    while (true) {
+      directories.unshift(current);
+      const parent = dirname(current);
+      if (parent === current) break;
+      current = parent;
+    }
+    for (const directory of directories) {
+      for (const name of CONFIG_FILE_NAMES) {
+        candidates.push(join(directory, name));
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Loads and merges every config file that applies to `startPath`.
+   * @param startPath The scan root.
+   * @returns The merged config and the files it came from.
+   */
+  async load(startPath: string): Promise<LoadedConfig> {
+    const layers: RepoTreeConfig[] = [];
+    const sources: string[] = [];
+    for (const candidate of this.candidatePaths(startPath)) {
+      const config = await this.readConfigFile(candidate);
+      if (config) {
+        layers.push(config);
+        sources.push(candidate);
+      }
+    }
+    return { config: mergeConfig(...layers), sources };
+  }
+}
@@ -0,0 +1,175 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import {
+  ConfigLoader,
+  DEFAULT_CONFIG,
+  findRepoOverride,
+  mergeConfig,
+} from "./config.ts";
+import { DenoFileSystem } from "./file_system.ts";
+import { withTempDir } from "../test/test_helpers.ts";
+
+function loaderFor(env: Record<string, string>): ConfigLoader {
+  return new ConfigLoader(new DenoFileSystem(), { get: (key) => env[key] });
+}
+
+Deno.test("mergeConfig lets later layers win and merges repos by key", () => {
+  const merged = mergeConfig(
+    DEFAULT_CONFIG,
+    { depth: 3, skip: ["vendor"], repos: { "work/*": { ignore: true } } },
+    {
+      depth: undefined,
+      format: "json",
+      repos: { "work/*": { ignoreUntracked: true }, "tmp/*": { ignore: true } },
+    },
+  );
+  assertEquals(merged.depth, 3);
+  assertEquals(merged.skip, ["vendor"]);
+  assertEquals(merged.format, "json");
+  assertEquals(merged.repos, {
+    "work/*": { ignore: true, ignoreUntracked: true },
+    "tmp/*": { ignore: true },
+  });
+});
+
+Deno.test("findRepoOverride combines every matching glob", () => {
+  const overrides = {
+    "clients/**": { ignoreUntracked: true },
+    "clients/legacy": { ignore: true },
+    "/src/scratch/*": { ignore: true },
+  };
+  assertEquals(
+    findRepoOverride(overrides, "/src/clients/legacy", "/src"),
+    { ignoreUntracked: true, ignore: true },
+  );
+  assertEquals(
+    findRepoOverride(overrides, "/src/clients/web", "/src"),
+    { ignoreUntracked: true },
+  );
+  assertEquals(
+    findRepoOverride(overrides, "/src/scratch/demo", "/src"),
+    { ignore: true },
+  );
+  assertEquals(findRepoOverride(overrides, "/src/tools", "/src"), {});
+});
+
+Deno.test("a later glob does not unset the flags of an earlier one", async () => {
+  await withTempDir(async (dir) => {
+    await Deno.writeTextFile(
+      join(dir, ".repotree.json"),
+      JSON.stringify({
+        repos: {
+          "work/*": { ignore: true },
+          "work/x": { ignoreUntracked: true },
+        },
+      }),
+    );
+    const { config } = await loaderFor({}).load(dir);
+    assertEquals(config.repos, {
+      "work/*": { ignore: true },
+      "work/x": { ignoreUntracked: true },
+    });
+    assertEquals(
+      findRepoOverride(config.repos!, join(dir, "work", "x"), dir),
+      { ignore: true, ignoreUntracked: true },
+    );
+
+    // Nor does a later config layer that sets another flag for the same glob.
+    const merged = mergeConfig(config, {
+      repos: { "work/*": { ignore: undefined, ignoreUntracked: false } },
+    });
+    assertEquals(merged.repos?.["work/*"], {
+      ignore: true,
+      ignoreUntracked: false,
+    });
+  });
+});
+
+Deno.test("ConfigLoader merges the user config, then every ancestor down to the root", async () => {
+  await withTempDir(async (dir) => {
+    const configHome = join(dir, "xdg");
+    const workspace = join(dir, "workspace");
+    const project = join(workspace, "project");
+    await Deno.mkdir(join(configHome, "repotree"), { recursive: true });
+    await Deno.mkdir(project, { recursive: true });
+
+    await Deno.writeTextFile(
+      join(configHome, "repotree", "config.toml"),
+      'depth = 2\nformat = "json"\nskip = ["dist"]\n',
+    );
+    await Deno.writeTextFile(
+      join(workspace, ".repotree.json"),
+      JSON.stringify({ depth: 4, path: ["project", "../shared"] }),
+    );
+    await Deno.writeTextFile(
+      join(project, ".repotree.toml"),
+      '[repos."legacy/*"]\nignore = true\n',
+    );
+
+    const { config, sources } = await loaderFor({
+      XDG_CONFIG_HOME: configHome,
+      HOME: join(dir, "home"),
+    }).load(project);
+    assertEquals(sources.filter((source) => source.startsWith(dir)), [
+      join(configHome, "repotree", "config.toml"),
+      join(workspace, ".repotree.json"),
+      join(project, ".repotree.toml"),
+    ]);
+    assertEquals(config.depth, 4);
+    assertEquals(config.format, "json");
+    assertEquals(config.skip, ["dist"]);
+    assertEquals(config.path, [project, join(dir, "shared")]);
+    assertEquals(config.repos, { "legacy/*": { ignore: true } });
+
+    // Command line options are merged last.
+    assertEquals(mergeConfig(config, { depth: 1 }).depth, 1);
+  });
+});
+
+Deno.test("ConfigLoader falls back to ~/.config without XDG_CONFIG_HOME", async () => {
+  await withTempDir(async (dir) => {
+    const home = join(dir, "home");
+    await Deno.mkdir(join(home, ".config", "repotree"), { recursive: true });
+    await Deno.writeTextFile(
+      join(home, ".config", "repotree", "config.json"),
+      JSON.stringify({ protectedBranches: ["release/*"] }),
+    );
+
+    const { config } = await loaderFor({ HOME: home }).load(dir);
+    assertEquals(config.protectedBranches, ["release/*"]);
+  });
+});
+
+Deno.test("ConfigLoader rejects unknown keys and invalid values", async () => {
+  await withTempDir(async (dir) => {
+    const path = join(dir, ".repotree.json");
+    const rejects = async (config: unknown, message: string) => {
+      await Deno.writeTextFile(path, JSON.stringify(config));
+      await assertRejects(
+        () => loaderFor({}).load(dir),
+        Error,
+        `Invalid config ${path}: ${message}`,
+      );
+    };
+
+    await rejects([], "expected an object at the top level");
+    await rejects({ dept: 3 }, "unknown key 'dept'");
+    await rejects(
+      { repos: { "app": { ignoreUntrakced: true } } },
+      "unknown key 'repos.app.ignoreUntrakced'",
+    );
+    await rejects({ depth: -1 }, "'depth'");
+    await rejects({ depth: 1.5 }, "'depth'");
+    await rejects({ format: "xml" }, "'format'");
+    await rejects({ skip: "node_modules" }, "'skip'");
+    await rejects({ repos: { "app": { ignore: "yes" } } }, "'repos.app'");
+    await rejects({ check: ["sometimes"] }, "'check'");
+
+    await Deno.writeTextFile(path, "{ depth: 3");
+    await assertRejects(
+      () => loaderFor({}).load(dir),
+      Error,
+      `Could not parse config ${path}`,
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { GitStatus } from "./git_status.ts";
+
+/**
+ * Problems `--doctor` looks for, beyond what the status colors show:
+ * - `rebase`, `merge`, `cherry-pick`, `bisect`: an operation waiting for the user
+ * - `conflicts`: unresolved conflicts in the index
+ * - `detached`: HEAD is not on a branch, outside of a rebase or bisect
+ * - `shallow`: a shallow clone, with incomplete history
+ * - `no-default-branch`: neither `origin/HEAD` nor a `main` or `master` branch
+ * - `large-files`: untracked files large enough to be a mistake to commit
+ */
+export type HealthWarningKind =
+  | "rebase"
+  | "merge"
+  | "cherry-pick"
+  | "bisect"
+  | "conflicts"
+  | "detached"
+  | "shallow"
+  | "no-default-branch"
+  | "large-files";
+
+/** Operations git keeps state files for in the git directory while they run. */
+export type InProgressOperation = "rebase" | "merge" | "cherry-pick" | "bisect";
+
+export interface HealthWarning {
+  kind: HealthWarningKind;
+  /** Specifics, such as the number of conflicts or the large files. */
+  detail?: string;
+}
+
+export const HEALTH_WARNING_LABELS: Record<HealthWarningKind, string> = {
+  rebase: "rebase in progress",
+  merge: "merge in progress",
+  "cherry-pick": "cherry-pick in progress",
+  bisect: "bisect in progress",
+  conflicts: "unresolved conflicts",
+  detached: "detached HEAD",
+  shallow: "shallow clone",
+  "no-default-branch": "no default branch",
+  "large-files": "large untracked files",
+};
+
+/** Untracked files from this size on are reported; GitHub warns above 50 MiB. */
+export const LARGE_FILE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Formats a file size with a binary unit, e.g. `120 MB`.
+ * @param bytes The size in bytes.
+ * @returns The size, rounded to whole units.
+ */
+export function formatSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Math.round(size)} ${units[unit]}`;
+}
+
+/**
+ * Derives the warnings that follow from a repository's status alone.
+ * A detached HEAD is expected while rebasing or bisecting and is then not
+ * reported separately.
+ * @param status The status of the repository.
+ * @param operations The operations in progress in the repository.
+ * @returns The conflict and detached HEAD warnings.
+ */
+export function diagnoseStatus(
+  status: GitStatus,
+  operations: readonly InProgressOperation[],
+): HealthWarning[] {
+  const warnings: HealthWarning[] = [];
+  if (status.conflicted > 0) {
+    warnings.push({ kind: "conflicts", detail: String(status.conflicted) });
+  }
+  if (
+    status.detached && !operations.includes("rebase") &&
+    !operations.includes("bisect")
+  ) {
+    warnings.push({ kind: "detached" });
+  }
+  return warnings;
+}
+
+/**
+ * Formats one warning as a marker, e.g. `⚠ unresolved conflicts (2)`.
+ * @param warning The warning.
+ * @returns The marker.
+ */
+export function formatHealthWarning(warning: HealthWarning): string {
+  const label = HEALTH_WARNING_LABELS[warning.kind];
+  return warning.detail !== undefined
+    ? `⚠ ${label} (${warning.detail})`
+    : `⚠ ${label}`;
+}
+
+/**
+ * Formats how many repositories have each kind of warning, e.g.
+ * `1 rebase in progress, 2 detached HEAD`.
+ * @param counts The number of repositories per kind.
+ * @returns The counts in a fixed order, or an empty string if there are none.
+ */
+export function formatHealthWarningCounts(
+  counts: Partial<Record<HealthWarningKind, number>>,
+): string {
+  return (Object.keys(HEALTH_WARNING_LABELS) as HealthWarningKind[])
+    .filter((kind) => (counts[kind] ?? 0) > 0)
+    .map((kind) => `${counts[kind]} ${HEALTH_WARNING_LABELS[kind]}`)
+    .join(", ");
+}
@@ -0,0 +1,69 @@
+import { assertEquals } from "@std/assert";
+import {
+  diagnoseStatus,
+  formatHealthWarning,
+  formatHealthWarningCounts,
+  formatSize,
+} from "./doctor.ts";
+import { emptyGitStatus } from "./git_status.ts";
+import { formatRunSummary, summarizeRepositories } from "./summary.ts";
+import { directoryItem, repoItem } from "../test/item_fixtures.ts";
+
+Deno.test("diagnoseStatus reports conflicts and a detached HEAD", () => {
+  assertEquals(
+    diagnoseStatus(
+      { ...emptyGitStatus(), detached: true, conflicted: 2 },
+      ["merge"],
+    ),
+    [{ kind: "conflicts", detail: "2" }, { kind: "detached" }],
+  );
+  assertEquals(diagnoseStatus({ ...emptyGitStatus(), branch: "main" }, []), []);
+});
+
+Deno.test("diagnoseStatus expects a detached HEAD while rebasing or bisecting", () => {
+  const detached = { ...emptyGitStatus(), detached: true };
+  assertEquals(diagnoseStatus(detached, ["rebase"]), []);
+  assertEquals(diagnoseStatus(detached, ["bisect"]), []);
+});
+
+Deno.test("formatHealthWarning adds the detail in parentheses", () => {
+  assertEquals(formatHealthWarning({ kind: "shallow" }), "⚠ shallow clone");
+  assertEquals(
+    formatHealthWarning({ kind: "large-files", detail: "dump.sql 120 MB" }),
+    "⚠ large untracked files (dump.sql 120 MB)",
+  );
+});
+
+Deno.test("formatSize rounds to binary units", () => {
+  assertEquals(formatSize(512), "512 B");
+  assertEquals(formatSize(1536), "2 KB");
+  assertEquals(formatSize(120 * 1024 * 1024), "120 MB");
+  assertEquals(formatSize(3 * 1024 ** 4), "3072 GB");
+});
+
+Deno.test("formatHealthWarningCounts lists kinds in a fixed order", () => {
+  assertEquals(formatHealthWarningCounts({}), "");
+  assertEquals(
+    formatHealthWarningCounts({ detached: 2, rebase: 1, merge: 0 }),
+    "1 rebase in progress, 2 detached HEAD",
+  );
+});
+
+Deno.test("the run summary counts repositories per warning kind", () => {
+  const root = directoryItem("/work", [
+    repoItem("/work/app", {
+      warnings: [{ kind: "merge" }, { kind: "conflicts", detail: "1" }],
+    }),
+    repoItem("/work/lib", { warnings: [{ kind: "conflicts", detail: "3" }] }),
+    repoItem("/work/docs", { warnings: [] }),
+  ]);
+
+  const summary = summarizeRepositories(root);
+  assertEquals(summary.warnings, { merge: 1, conflicts: 2 });
+  assertEquals(
+    formatRunSummary(summary, 40),
+    "Scanned 4 directories in 40ms: 3 repositories, 3 clean, 0 dirty, " +
+      "0 unpushed, 0 behind, 0 errored; " +
+      "⚠ 1 merge in progress, 2 unresolved conflicts",
+  );
+});
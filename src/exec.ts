@@ -0,0 +1,194 @@
+import { relative } from "@std/path";
+import { CommandRunner, OutputStream } from "./command_runner.ts";
+import { matchesRepositoryFilter } from "./filter.ts";
+import { Logger } from "./logger.ts";
+import { defaultConcurrency, WorkerPool } from "./pool.ts";
+import { RepositoryTree, RepositoryTreeOptions } from "./repo_tree.ts";
+import { collectRepositories } from "./walk.ts";
+
+export interface ExecResult {
+  path: string;
+  /** Exit code, or undefined if the command was not started. */
+  code?: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface ExecOptions extends RepositoryTreeOptions {
+  /** The command and its arguments, run inside each repository. */
+  command: string[];
+  /** Stop starting the command in more repositories once it failed in one. */
+  failFast?: boolean;
+}
+
+/** Called with every line of output as soon as a command writes it. */
+export type ExecLineListener = (
+  path: string,
+  line: string,
+  stream: OutputStream,
+) => void;
+
+/** Exit code reported when the command could not be started at all. */
+const NOT_STARTED_CODE = 127;
+
+/**
+ * Runs a command in every repository found by RepositoryTree.
+ */
+export class RepositoryExec {
+  constructor(
+    private readonly _log: Logger,
+    private readonly _repoTree: RepositoryTree,
+    private readonly _commandRunner: CommandRunner,
+  ) {
+  }
+
+  private async execInRepository(
+    path: string,
+    command: string[],
+    onLine?: ExecLineListener,
+  ): Promise<ExecResult> {
+    try {
+      const { code, stdout, stderr } = await this._commandRunner.runCommand(
+        command,
+        {
+          cwd: path,
+          onLine: onLine && ((line, stream) => onLine(path, line, stream)),
+        },
+      );
+      return { path, code, stdout, stderr };
+    } catch (error) {
+      return {
+        path,
+        code: NOT_STARTED_CODE,
+        stdout: "",
+        stderr: Error.isError(error) ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Discovers repositories below `options.path` and runs the command in them
+   * in parallel.
+   * @param options The scan and exec options.
+   * @param onResult Called as soon as the command finished in a repository.
+   * @param onLine Called with every line of output while the commands run.
+   * @returns One result per repository, in tree order.
+   */
+  public async exec(
+    options: ExecOptions,
+    onResult?: (result: ExecResult) => void,
+    onLine?: ExecLineListener,
+  ): Promise<ExecResult[]> {
+    const root = await this._repoTree.scan(options);
+    if (!root) {
+      return [];
+    }
+
+    const filter = options.filter ?? {};
+    const repositories = collectRepositories(root).filter((repo) =>
+      repo.repository?.kind !== "bare" && matchesRepositoryFilter(repo, filter)
+    );
+    const commandLine = options.command.join(" ");
+    this._log.info(
+      `Running '${commandLine}' in ${repositories.length} repositories...`,
+    );
+
+    let failed = false;
+    const pool = new WorkerPool(options.jobs ?? defaultConcurrency());
+    return await Promise.all(
+      repositories.map((repo) =>
+        pool.run(async () => {
+          if (failed && options.failFast) {
+            return { path: repo.path, stdout: "", stderr: "" };
+          }
+          const result = await this.execInRepository(
+            repo.path,
+            options.command,
+            onLine,
+          );
+          failed ||= result.code !== 0;
+          onResult?.(result);
+          return result;
+        })
+      ),
+    );
+  }
+}
+
+function outputLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\n$/, "").split("\n");
+}
+
+function displayPath(path: string, rootPath: string): string {
+  return relative(rootPath, path) || ".";
+}
+
+/**
+ * Prefixes one line of output with the repository it came from.
+ * @param path The repository.
+ * @param line The line, without its line break.
+ * @param rootPath Paths are shown relative to this directory.
+ * @returns The prefixed line.
+ */
+export function formatExecLine(
+  path: string,
+  line: string,
+  rootPath: string,
+): string {
+  return `[${displayPath(path, rootPath)}] ${line}`;
+}
+
+/**
+ * Formats the output of one repository as a block under a header with its
+ * path and exit code.
+ * @param result The result of the command in one repository.
+ * @param rootPath Paths are shown relative to this directory.
+ * @returns The formatted stdout and stderr.
+ */
+export function formatExecGroup(
+  result: ExecResult,
+  rootPath: string,
+): { stdout: string; stderr: string } {
+  const header = `==> ${
+    displayPath(result.path, rootPath)
+  } (exit ${result.code}) <==`;
+  return {
+    stdout: [header, ...outputLines(result.stdout)].join("\n"),
+    stderr: outputLines(result.stderr).join("\n"),
+  };
+}
+
+/**
+ * Summarizes exit codes as a plain-text table with one row per repository,
+ * followed by the totals.
+ * @param results The exec results.
+ * @param rootPath Paths are shown relative to this directory.
+ * @returns The summary, one line per row.
+ */
+export function formatExecSummary(
+  results: ExecResult[],
+  rootPath: string,
+): string {
+  const rows = results.map((result) => [
+    displayPath(result.path, rootPath),
+    result.code === undefined ? "skipped" : String(result.code),
+  ]);
+  const header = ["REPOSITORY", "EXIT"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const table = [header, ...rows].map((row) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join("  ")
+      .trimEnd()
+  );
+
+  const succeeded = results.filter((result) => result.code === 0).length;
+  const skipped = results.filter((result) => result.code === undefined).length;
+  const failed = results.length - succeeded - skipped;
+  const totals = [`${succeeded} succeeded`, `${failed} failed`];
+  if (skipped > 0) {
+    totals.push(`${skipped} skipped`);
+  }
+
+  return [...table, "", totals.join(", ")].join("\n");
+}
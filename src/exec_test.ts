@@ -0,0 +1,164 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { DenoCommandRunner, OutputStream } from "./command_runner.ts";
+import {
+  ExecResult,
+  formatExecGroup,
+  formatExecLine,
+  formatExecSummary,
+  RepositoryExec,
+} from "./exec.ts";
+import { DenoFileSystem } from "./file_system.ts";
+import { GitService } from "./git.ts";
+import { RepositoryTree } from "./repo_tree.ts";
+import {
+  createRepository,
+  silentLog,
+  withTempDir,
+} from "../test/test_helpers.ts";
+
+function createRepositoryExec(): RepositoryExec {
+  const fileSystem = new DenoFileSystem();
+  const commandRunner = new DenoCommandRunner();
+  return new RepositoryExec(
+    silentLog,
+    new RepositoryTree(
+      silentLog,
+      fileSystem,
+      new GitService(fileSystem, commandRunner, silentLog),
+    ),
+    commandRunner,
+  );
+}
+
+/** Prints the repository name, and fails in the repository named `b`. */
+const FAIL_IN_B = [
+  "sh",
+  "-c",
+  'name=$(basename "$PWD"); echo "hello from $name"; ' +
+  'if [ "$name" = b ]; then echo "b failed" >&2; exit 3; fi',
+];
+
+Deno.test("formatExecLine prefixes a line with the repository path", () => {
+  assertEquals(formatExecLine("/work/app", "ok", "/work"), "[app] ok");
+  assertEquals(formatExecLine("/work", "ok", "/work"), "[.] ok");
+});
+
+Deno.test("formatExecGroup prints the output under a header", () => {
+  const result = {
+    path: "/work/clients/web",
+    code: 1,
+    stdout: "one\ntwo\n",
+    stderr: "warning\n",
+  };
+  assertEquals(formatExecGroup(result, "/work"), {
+    stdout: "==> clients/web (exit 1) <==\none\ntwo",
+    stderr: "warning",
+  });
+  assertEquals(
+    formatExecGroup({ ...result, code: 0, stdout: "", stderr: "" }, "/work"),
+    { stdout: "==> clients/web (exit 0) <==", stderr: "" },
+  );
+});
+
+Deno.test("formatExecSummary lists every exit code with the totals", () => {
+  const results: ExecResult[] = [
+    { path: "/work/app", code: 0, stdout: "", stderr: "" },
+    { path: "/work/clients/web", code: 128, stdout: "", stderr: "" },
+    { path: "/work/lib", stdout: "", stderr: "" },
+  ];
+  assertEquals(
+    formatExecSummary(results, "/work").split("\n"),
+    [
+      "REPOSITORY   EXIT",
+      "app          0",
+      "clients/web  128",
+      "lib          skipped",
+      "",
+      "1 succeeded, 1 failed, 1 skipped",
+    ],
+  );
+  assertEquals(
+    formatExecSummary(results.slice(0, 1), "/work").split("\n").at(-1),
+    "1 succeeded, 0 failed",
+  );
+});
+
+Deno.test("RepositoryExec runs the command in every repository and streams its lines", async () => {
+  await withTempDir(async (dir) => {
+    for (const name of ["a", "b", "c"]) {
+      await createRepository(join(dir, name));
+    }
+
+    const lines: [string, string, OutputStream][] = [];
+    const finished: string[] = [];
+    const results = await createRepositoryExec().exec(
+      { path: dir, command: FAIL_IN_B },
+      (result) => finished.push(result.path),
+      (path, line, stream) => lines.push([path, line, stream]),
+    );
+
+    assertEquals(results, [
+      { path: join(dir, "a"), code: 0, stdout: "hello from a\n", stderr: "" },
+      {
+        path: join(dir, "b"),
+        code: 3,
+        stdout: "hello from b\n",
+        stderr: "b failed\n",
+      },
+      { path: join(dir, "c"), code: 0, stdout: "hello from c\n", stderr: "" },
+    ]);
+    assertEquals(finished.toSorted(), results.map((result) => result.path));
+    assertEquals(
+      lines.toSorted((x, y) => x.join().localeCompare(y.join())),
+      [
+        [join(dir, "a"), "hello from a", "stdout"],
+        [join(dir, "b"), "b failed", "stderr"],
+        [join(dir, "b"), "hello from b", "stdout"],
+        [join(dir, "c"), "hello from c", "stdout"],
+      ],
+    );
+  });
+});
+
+Deno.test("RepositoryExec does not start the command in more repositories after a failure with failFast", async () => {
+  await withTempDir(async (dir) => {
+    for (const name of ["a", "b", "c", "d"]) {
+      await createRepository(join(dir, name));
+    }
+
+    const results = await createRepositoryExec().exec({
+      path: dir,
+      command: FAIL_IN_B,
+      failFast: true,
+      jobs: 1,
+    });
+    assertEquals(results.map((result) => result.code), [
+      0,
+      3,
+      undefined,
+      undefined,
+    ]);
+    assertEquals(results[2], { path: join(dir, "c"), stdout: "", stderr: "" });
+
+    // Without it, every repository runs the command.
+    const keepGoing = await createRepositoryExec().exec({
+      path: dir,
+      command: FAIL_IN_B,
+      jobs: 1,
+    });
+    assertEquals(keepGoing.map((result) => result.code), [0, 3, 0, 0]);
+  });
+});
+
+Deno.test("RepositoryExec reports a command that cannot be started", async () => {
+  await withTempDir(async (dir) => {
+    await createRepository(join(dir, "app"));
+    const [result] = await createRepositoryExec().exec({
+      path: dir,
+      command: ["repo-tree-missing-command"],
+    });
+    assertEquals(result.code, 127);
+    assertEquals(result.stdout, "");
+  });
+});
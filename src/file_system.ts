@@ -1,6 +1,11 @@
 export interface FileSystem {
   stat(path: string): Promise<Deno.FileInfo>;
   readDir(path: string): AsyncIterable<Deno.DirEntry>;
+  readTextFile(path: string): Promise<string>;
+  readLink(path: string): Promise<string>;
+  writeTextFile(path: string, content: string): Promise<void>;
+  mkdir(path: string): Promise<void>;
+  watchFs(paths: string | string[]): Deno.FsWatcher;
   cwd(): string;
   chdir(directory: string): void;
   runCommand(cmd: string[]): Promise<Deno.CommandOutput>;
@@ -16,6 +21,26 @@ export class DenoFileSystem implements FileSystem {
     return Deno.readDir(path);
   }
 
+  async readTextFile(path: string): Promise<string> {
+    return await Deno.readTextFile(path);
+  }
+
+  async readLink(path: string): Promise<string> {
+    return await Deno.readLink(path);
+  }
+
+  async writeTextFile(path: string, content: string): Promise<void> {
+    await Deno.writeTextFile(path, content);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    await Deno.mkdir(path, { recursive: true });
+  }
+
+  watchFs(paths: string | string[]): Deno.FsWatcher {
+    return Deno.watchFs(paths, { recursive: true });
+  }
+
   cwd(): string {
     return Deno.cwd();
   }
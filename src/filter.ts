@@ -0,0 +1,92 @@
+import { globToRegExp } from "@std/path";
+import { ItemInfo } from "./types.ts";
+
+/**
+ * Status predicates a repository has to match to be reported.
+ * Every predicate that is set must match; unset predicates are ignored.
+ */
+export interface RepositoryFilter {
+  /** Working tree has staged, unstaged, untracked or conflicted changes. */
+  dirty?: boolean;
+  /** Current branch has commits its upstream does not have. */
+  unpushed?: boolean;
+  /** Upstream has commits the current branch does not have. */
+  behind?: boolean;
+  /** Glob the current branch name must match, e.g. `feature/*`. */
+  branch?: string;
+  /** Current branch has no upstream configured. */
+  noUpstream?: boolean;
+  /** Last commit is at least this many milliseconds old. */
+  olderThan?: number;
+  /** Last commit is less than this many milliseconds old. */
+  newerThan?: number;
+}
+
+/**
+ * Tells whether the filter has at least one predicate set.
+ * @param filter The repository filter.
+ */
+export function hasActiveFilter(filter: RepositoryFilter): boolean {
+  return Boolean(
+    filter.dirty || filter.unpushed || filter.behind || filter.branch ||
+      filter.noUpstream || filter.olderThan !== undefined ||
+      filter.newerThan !== undefined,
+  );
+}
+
+/**
+ * Checks a repository against every predicate set in the filter.
+ * @param repo The ItemInfo object for a repository.
+ * @param filter The repository filter.
+ * @param now The current time, for the age predicates.
+ * @returns True if the repository matches all predicates.
+ */
+export function matchesRepositoryFilter(
+  repo: ItemInfo,
+  filter: RepositoryFilter,
+  now: number = Date.now(),
+): boolean {
+  // Repositories without commits have no age and match neither age predicate.
+  if (filter.olderThan !== undefined || filter.newerThan !== undefined) {
+    const lastCommit = repo.activity?.lastCommit;
+    if (!lastCommit) {
+      return false;
+    }
+    const age = now - Date.parse(lastCommit.date);
+    if (filter.olderThan !== undefined && age < filter.olderThan) {
+      return false;
+    }
+    if (filter.newerThan !== undefined && age >= filter.newerThan) {
+      return false;
+    }
+  }
+
+  const status = repo.gitStatus;
+  if (!status) {
+    return !hasActiveFilter({
+      ...filter,
+      olderThan: undefined,
+      newerThan: undefined,
+    });
+  }
+
+  if (filter.dirty && !status.hasWorkingChanges) {
+    return false;
+  }
+  if (filter.unpushed && status.ahead === 0) {
+    return false;
+  }
+  if (filter.behind && status.behind === 0) {
+    return false;
+  }
+  if (filter.noUpstream && status.upstream !== undefined) {
+    return false;
+  }
+  if (filter.branch !== undefined) {
+    const pattern = globToRegExp(filter.branch, { extended: true });
+    if (status.branch === undefined || !pattern.test(status.branch)) {
+      return false;
+    }
+  }
+  return true;
+}
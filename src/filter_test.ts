@@ -0,0 +1,89 @@
+import { assert, assertEquals, assertFalse } from "@std/assert";
+import { hasActiveFilter, matchesRepositoryFilter } from "./filter.ts";
+import { emptyGitStatus, GitStatus } from "./git_status.ts";
+import { ItemInfo } from "./types.ts";
+import { repoItem } from "../test/item_fixtures.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2024-06-30T12:00:00Z");
+
+function repo(
+  status: Partial<GitStatus> | undefined,
+  lastCommitDate?: string,
+): ItemInfo {
+  return repoItem("/work/app", {
+    gitStatus: status && { ...emptyGitStatus(), ...status },
+    activity: lastCommitDate
+      ? { lastCommit: { date: lastCommitDate, author: "Test" } }
+      : undefined,
+  });
+}
+
+Deno.test("hasActiveFilter ignores unset predicates", () => {
+  assertFalse(hasActiveFilter({}));
+  assertFalse(hasActiveFilter({ dirty: false, branch: undefined }));
+  assert(hasActiveFilter({ noUpstream: true }));
+  assert(hasActiveFilter({ olderThan: 0 }));
+});
+
+Deno.test("matchesRepositoryFilter requires every predicate that is set", () => {
+  const dirtyAhead = repo({
+    hasWorkingChanges: true,
+    hasUnpushedChanges: true,
+    branch: "feature/login",
+    upstream: "origin/feature/login",
+    ahead: 2,
+  });
+  assert(matchesRepositoryFilter(dirtyAhead, {}));
+  assert(matchesRepositoryFilter(dirtyAhead, { dirty: true }));
+  assert(matchesRepositoryFilter(dirtyAhead, { dirty: true, unpushed: true }));
+  assert(
+    matchesRepositoryFilter(dirtyAhead, { dirty: true, branch: "feature/*" }),
+  );
+  assertFalse(
+    matchesRepositoryFilter(dirtyAhead, { dirty: true, behind: true }),
+  );
+  assertFalse(
+    matchesRepositoryFilter(dirtyAhead, { unpushed: true, noUpstream: true }),
+  );
+  assertFalse(matchesRepositoryFilter(dirtyAhead, { branch: "main" }));
+
+  const noUpstream = repo({ branch: "main", behind: 0 });
+  assert(matchesRepositoryFilter(noUpstream, { noUpstream: true }));
+  assertFalse(matchesRepositoryFilter(noUpstream, { dirty: true }));
+
+  // A detached HEAD has no branch name to match.
+  const detached = repo({ detached: true });
+  assertFalse(matchesRepositoryFilter(detached, { branch: "*" }));
+});
+
+Deno.test("matchesRepositoryFilter compares the age of the last commit", () => {
+  const old = repo({ branch: "main" }, new Date(NOW - 40 * DAY).toISOString());
+  const recent = repo({ branch: "main" }, new Date(NOW - DAY).toISOString());
+  const filter = { olderThan: 30 * DAY };
+
+  assert(matchesRepositoryFilter(old, filter, NOW));
+  assertFalse(matchesRepositoryFilter(recent, filter, NOW));
+  assert(matchesRepositoryFilter(recent, { newerThan: 7 * DAY }, NOW));
+  assertFalse(
+    matchesRepositoryFilter(old, { ...filter, branch: "release/*" }, NOW),
+  );
+
+  // Without commits a repository has no age.
+  assertFalse(matchesRepositoryFilter(repo({}), filter, NOW));
+  assertFalse(matchesRepositoryFilter(repo({}), { newerThan: DAY }, NOW));
+});
+
+Deno.test("matchesRepositoryFilter only matches unreadable repositories without status predicates", () => {
+  const unreadable = repo(undefined, new Date(NOW - 40 * DAY).toISOString());
+  assertEquals(matchesRepositoryFilter(unreadable, {}), true);
+  assertEquals(
+    matchesRepositoryFilter(unreadable, { olderThan: 30 * DAY }, NOW),
+    true,
+  );
+  assertEquals(matchesRepositoryFilter(unreadable, { dirty: true }), false);
+  assertEquals(
+    matchesRepositoryFilter(unreadable, { noUpstream: true }),
+    false,
+  );
+});
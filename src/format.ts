@@ -1,86 +1,344 @@
+import { formatAge } from "./age.ts";
+import { ColorScheme, ItemStyle, paint } from "./ansi.ts";
+import { formatHealthWarning } from "./doctor.ts";
+import { RepositoryActivity, RepositoryInfo } from "./git.ts";
+import { GitStatus } from "./git_status.ts";
+import { RemoteInfo } from "./remotes.ts";
+import { getRepositoryState } from "./summary.ts";
 import { ItemInfo, ItemType } from "./types.ts";
 
 /**
- * Formats an item's name with console colors based on its type within a repository.
+ * Describes repositories that are not a plain checkout, e.g. `(worktree of /src/app)`.
+ * @param repository How the repository was detected.
+ * @returns The label, or an empty string for a standard repository.
+ */
+export function formatRepositoryKind(repository: RepositoryInfo): string {
+  const linked = repository.linkedRepository ?? "unknown";
+  switch (repository.kind) {
+    case "bare":
+      return "(bare)";
+    case "worktree":
+      return `(worktree of ${linked})`;
+    case "submodule":
+      return `(submodule of ${linked})`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Describes where a symlinked entry points and whether it was already
+ * reported elsewhere, e.g. `→ ../app (alias of /src/app)`.
  * @param item The ItemInfo object.
- * @returns An array containing the formatted name and its style string.
+ * @returns The note, or an empty string for a regular entry.
  */
-function formatRepoLevelItem(item: ItemInfo): [string, string] {
+export function formatLinkNote(item: ItemInfo): string {
+  const notes: string[] = [];
+  if (item.symlinkTarget !== undefined) {
+    notes.push(`→ ${item.symlinkTarget}`);
+  }
+  if (item.aliasOf !== undefined) {
+    notes.push(`(alias of ${item.aliasOf})`);
+  }
+  return notes.join(" ");
+}
+
+/**
+ * Counts the entries hidden under a collapsed repository, e.g. `(3 items)`.
+ * @param item The ItemInfo object.
+ * @returns The count, or an empty string if the item is not collapsed.
+ */
+export function formatCollapsedCount(item: ItemInfo): string {
+  const count = item.collapsedChildCount;
+  if (count === undefined) {
+    return "";
+  }
+  return `(${count} ${count === 1 ? "item" : "items"})`;
+}
+
+/**
+ * Describes how recently a repository was committed to and fetched,
+ * e.g. `3 months ago, fetched 2 days ago`.
+ * @param activity The activity of a repository.
+ * @returns The description, or an empty string if nothing is known.
+ */
+export function formatActivity(activity: RepositoryActivity): string {
+  const parts: string[] = [];
+  if (activity.lastCommit) {
+    parts.push(formatAge(activity.lastCommit.date));
+  }
+  if (activity.lastFetch) {
+    parts.push(`fetched ${formatAge(activity.lastFetch)}`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Lists the remotes of a repository, e.g. `origin git@github.com:acme/app.git`.
+ * @param remotes The remotes of a repository, with credentials stripped.
+ * @returns The remotes separated by commas.
+ */
+export function formatRemoteList(remotes: RemoteInfo[]): string {
+  return remotes.map((remote) => `${remote.name} ${remote.url}`).join(", ");
+}
+
+/**
+ * Builds compact status badges such as `main ↑2 ↓1 +3 ~1 ?4`.
+ * Counters that are zero are left out.
+ * @param status The GitStatus of a repository.
+ * @returns The badges separated by spaces.
+ */
+export function formatStatusBadges(status: GitStatus): string {
+  const badges: string[] = [
+    status.detached ? "(detached)" : status.branch ?? "",
+  ];
+
+  if (status.ahead > 0) badges.push(`↑${status.ahead}`);
+  if (status.behind > 0) badges.push(`↓${status.behind}`);
+  if (status.staged > 0) badges.push(`+${status.staged}`);
+  if (status.unstaged > 0) badges.push(`~${status.unstaged}`);
+  if (status.untracked > 0) badges.push(`?${status.untracked}`);
+  if (status.conflicted > 0) badges.push(`!${status.conflicted}`);
+  if (status.stashes > 0) badges.push(`$${status.stashes}`);
+
+  return badges.filter(Boolean).join(" ");
+}
+
+/** Shortens an error message to its first line. */
+function formatErrorSummary(message: string): string {
+  const firstLine = message.trim().split("\n")[0];
+  return firstLine.length > 60 ? `${firstLine.slice(0, 59)}…` : firstLine;
+}
+
+/**
+ * Formats an item's name with a style based on its type within a repository.
+ * @param item The ItemInfo object.
+ * @returns An array containing the formatted name and its style.
+ */
+function formatRepoLevelItem(
+  item: ItemInfo,
+  options: TreeFormatOptions,
+): [string, ItemStyle] {
   switch (item.type) {
     case ItemType.File:
-      return [item.name, "color: black;"];
+      return [item.name, "file"];
     case ItemType.Directory:
-      return [item.name, "color: blue;"];
+      return [item.name, "directory"];
     case ItemType.RepoDirectory:
-      return formatRepoItem(item);
+      return formatRepoItem(item, options);
     default:
-      return [`${item.name} (unknown item type)`, ""];
+      return [`${item.name} (unknown item type)`, "none"];
   }
 }
 
 /**
- * Formats a repository item's name with console colors based on its Git status.
+ * Formats a repository item's name with a style based on its Git status.
  * @param item The ItemInfo object for a repository.
- * @returns An array containing the formatted name and its style string (red for dirty, green for clean).
+ * @param options Whether to list the remotes.
+ * @returns An array containing the formatted name and its style
+ * (dirty for local edits, unpushed for ahead or behind, clean otherwise).
  */
-function formatRepoItem(item: ItemInfo): [string, string] {
+function formatRepoItem(
+  item: ItemInfo,
+  options: TreeFormatOptions,
+): [string, ItemStyle] {
   const gitStatus = item.gitStatus;
-  const isDirty =
-    (gitStatus?.hasWorkingChanges || gitStatus?.hasUnpushedChanges) ?? false;
+  const count = formatCollapsedCount(item);
+  let name = count ? `${item.name} ${count}` : item.name;
+
+  const kindLabel = item.repository
+    ? formatRepositoryKind(item.repository)
+    : "";
+  if (kindLabel) {
+    name = `${name} ${kindLabel}`;
+  }
+
+  if (gitStatus) {
+    const badges = formatStatusBadges(gitStatus);
+    if (badges) {
+      name = `${name} [${badges}]`;
+    }
+  } else if (item.error !== undefined) {
+    name = `${name} [unknown/error: ${formatErrorSummary(item.error)}]`;
+  }
 
-  if (isDirty) {
-    return [item.name, "color: red;"];
-  } else {
-    return [item.name, "color: green;"];
+  const age = item.activity ? formatActivity(item.activity) : "";
+  if (age) {
+    name = `${name} · ${age}`;
   }
+
+  if (options.remotes && item.remotes?.length) {
+    name = `${name} ⇄ ${formatRemoteList(item.remotes)}`;
+  }
+  // A branch without upstream is never pushed by a plain `git push`.
+  if (
+    options.remotes && item.remotes?.length !== 0 && gitStatus &&
+    !gitStatus.detached && gitStatus.upstream === undefined
+  ) {
+    name = `${name} ⚠ no upstream`;
+  }
+  // Nothing backs up a repository without remotes, which is worth a warning.
+  if (item.remotes?.length === 0) {
+    name = `${name} ⚠ no remote`;
+  }
+  for (const warning of item.warnings ?? []) {
+    name = `${name} ${formatHealthWarning(warning)}`;
+  }
+
+  return [name, getRepositoryState(item)];
 }
 
 /**
- * Formats an item's name with console colors for default display.
+ * Formats an item's name for the plain display mode, which ignores Git status.
  * @param item The ItemInfo object.
- * @returns An array containing the formatted name and its style string.
+ * @returns An array containing the formatted name and its style.
  */
-function formatDefaultItem(item: ItemInfo): [string, string] {
+function formatDefaultItem(item: ItemInfo): [string, ItemStyle] {
+  switch (item.type) {
+    case ItemType.File:
+      return [item.name, "file"];
+    default:
+      return [item.name, "directory"];
+  }
+}
+
+function iconFor(item: ItemInfo, style: ItemStyle): string {
   switch (item.type) {
     case ItemType.File:
-      return [item.name, "color: black;"];
+      return "📄";
+    case ItemType.RepoDirectory:
+      return REPO_ICONS[style] ?? "📁";
     default:
-      return [item.name, ""];
+      return "📁";
   }
 }
 
+const REPO_ICONS: Partial<Record<ItemStyle, string>> = {
+  clean: "✅",
+  dirty: "🔴",
+  unpushed: "🟡",
+  bare: "📦",
+  error: "⚠️",
+};
+
 /**
- * Recursively converts the ItemInfo tree to a displayable object using console.log with styles.
- * @param root The root ItemInfo object.
- * @param indent The current indentation level.
- * @param prefix The prefix for the current line (e.g., '├── ', '└── ').
+ * `status` colors repositories by their Git status and shows badges;
+ * `plain` shows the bare directory structure.
  */
-export function displayItemInfoTree(
-  root: ItemInfo,
-  indent: string = "",
-  prefix: string = "",
+export type DisplayMode = "status" | "plain";
+
+export const DISPLAY_MODES: readonly DisplayMode[] = ["status", "plain"];
+
+export interface TreeFormatOptions {
+  mode?: DisplayMode;
+  /** Emit ANSI color codes. */
+  color?: boolean;
+  scheme?: ColorScheme;
+  /** Prefix every entry with an icon for its type or status. */
+  icons?: boolean;
+  /** Print a legend of colors and badges below the tree. */
+  legend?: boolean;
+  /** List the remotes of every repository and flag branches without upstream. */
+  remotes?: boolean;
+}
+
+function formatTreeLines(
+  item: ItemInfo,
+  options: TreeFormatOptions,
+  lines: string[],
+  indent: string,
+  prefix: string,
 ): void {
-  let formattedName: string;
-  let style: string;
+  const [formattedName, style] = options.mode === "plain"
+    ? formatDefaultItem(item)
+    : formatRepoLevelItem(item, options);
 
-  if (true) {
-    [formattedName, style] = formatRepoLevelItem(root);
-  } else {
-    [formattedName, style] = formatDefaultItem(root);
-  }
+  const icon = options.icons ? `${iconFor(item, style)} ` : "";
+  // Ignored paths are dimmed, or labelled when there is no color to dim them.
+  const name = options.color
+    ? paint(
+      formattedName,
+      item.ignored ? "muted" : style,
+      options.scheme ?? "dark",
+    )
+    : item.ignored
+    ? `${formattedName} (ignored)`
+    : formattedName;
+  const linkNote = formatLinkNote(item);
+  const note = linkNote && options.color
+    ? ` ${paint(linkNote, "muted", options.scheme ?? "dark")}`
+    : linkNote && ` ${linkNote}`;
+  lines.push(`${indent}${prefix}${icon}${name}${note}`);
 
-  if (indent !== "") {
-    console.log(`${indent}${prefix}%c${formattedName}`, style);
-  } else if (prefix === "") {
-    console.log(`%c${formattedName}`, style);
-  }
+  item.children.forEach((child, index) => {
+    const isLastChild = index === item.children.length - 1;
+    const newPrefix = isLastChild ? "└── " : "├── ";
+    const newIndent = indent + (prefix === "├── " ? "│   " : "    ");
+    formatTreeLines(child, options, lines, newIndent, newPrefix);
+  });
+}
+
+/**
+ * Recursively converts the ItemInfo tree to text, one line per item.
+ * @param root The root ItemInfo object.
+ * @param options How to style the tree.
+ * @returns The rendered tree.
+ */
+export function formatItemInfoTree(
+  root: ItemInfo,
+  options: TreeFormatOptions = {},
+): string {
+  const lines: string[] = [];
+  formatTreeLines(root, options, lines, "", "");
+  return lines.join("\n");
+}
 
-  if (root.children.length > 0) {
-    root.children.forEach((child, index) => {
-      const isLastChild = index === root.children.length - 1;
-      const newPrefix = isLastChild ? "└── " : "├── ";
-      const newIndent = indent + (prefix === "├── " ? "│   " : "    ");
-      displayItemInfoTree(child, newIndent, newPrefix);
-    });
+/**
+ * Explains the status colors and badges used by the `status` display mode.
+ * @param options The options the tree was rendered with.
+ * @returns The legend, which can span several lines.
+ */
+export function formatLegend(options: TreeFormatOptions = {}): string {
+  const sample = (text: string, style: ItemStyle) => {
+    const icon = options.icons ? `${REPO_ICONS[style]} ` : "";
+    return options.color
+      ? `${icon}${paint(text, style, options.scheme ?? "dark")}`
+      : `${icon}${text}`;
+  };
+  const statuses = [
+    sample("clean", "clean"),
+    sample("local changes", "dirty"),
+    sample("unpushed/behind", "unpushed"),
+    sample("bare", "bare"),
+    sample("unknown/error", "error"),
+  ];
+  const badges = [
+    "↑ ahead",
+    "↓ behind",
+    "+ staged",
+    "~ unstaged",
+    "? untracked",
+    "! conflicted",
+    "$ stashes",
+  ];
+  return [
+    `Legend: ${statuses.join("  ")}`,
+    `        ${badges.join("  ")}`,
+  ].join("\n");
+}
+
+/**
+ * Prints the ItemInfo tree to stdout.
+ * @param root The root ItemInfo object.
+ * @param options How to style the tree.
+ */
+export function displayItemInfoTree(
+  root: ItemInfo,
+  options: TreeFormatOptions = {},
+): void {
+  console.log(formatItemInfoTree(root, options));
+  if (options.legend && options.mode !== "plain") {
+    console.log();
+    console.log(formatLegend(options));
   }
 }
@@ -1,112 +1,482 @@
 import { CommandRunner } from "./command_runner.ts";
 import { FileSystem } from "./file_system.ts";
-import { join } from "jsr:@std/path";
+import { basename, dirname, join, resolve } from "@std/path";
 import { Logger } from "./logger.ts";
+import type { InProgressOperation } from "./doctor.ts";
+import {
+  BRANCH_REF_FORMAT,
+  BranchInfo,
+  DefaultBranch,
+  parseBranchRefs,
+} from "./git_branches.ts";
+import { GitStatus, parsePorcelainV2Status } from "./git_status.ts";
+import { parseRemoteVerbose, RemoteInfo } from "./remotes.ts";
 
-export interface GitStatus {
-  hasWorkingChanges: boolean;
-  hasUnpushedChanges?: boolean;
+export type { BranchInfo, DefaultBranch } from "./git_branches.ts";
+export type { GitStatus } from "./git_status.ts";
+
+export type RepoKind = "standard" | "worktree" | "submodule" | "bare";
+
+export interface RepositoryInfo {
+  kind: RepoKind;
+  /** Absolute path of the git directory (the repository itself when bare). */
+  gitDir: string;
+  /** Superproject of a submodule, or main repository of a linked worktree. */
+  linkedRepository?: string;
+}
+
+export interface LastCommit {
+  /** Committer date, ISO 8601. */
+  date: string;
+  author: string;
+}
+
+export interface RepositoryActivity {
+  /** Most recent commit on the current branch, unless it has none yet. */
+  lastCommit?: LastCommit;
+  /** When the repository was last fetched, from `FETCH_HEAD`, ISO 8601. */
+  lastFetch?: string;
+}
+
+export interface GitStatusOptions {
+  /** Leave untracked files out of the status. */
+  ignoreUntracked?: boolean;
 }
 
+export interface GitServiceOptions {
+  /** Time limit for local git commands. */
+  timeoutMs?: number;
+  /** Time limit for git commands that talk to a remote, like fetch and pull. */
+  networkTimeoutMs?: number;
+  /** Cancels every running and future git command when aborted. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_NETWORK_TIMEOUT_MS = 120_000;
+
 export class GitService {
   constructor(
     private readonly fileSystem: FileSystem,
     private readonly _commandRunner: CommandRunner,
     private readonly _log: Logger = console,
+    private readonly _options: GitServiceOptions = {},
+    private readonly _env: Pick<Deno.Env, "get"> = Deno.env,
   ) {
   }
 
   async testGitRepository(path: string): Promise<boolean> {
+    return (await this.detectRepository(path)) !== undefined;
+  }
+
+  /**
+   * Detects whether `path` is a repository and what kind it is.
+   * Besides a regular `.git` directory this recognises `.git` files pointing
+   * at a linked worktree or submodule, and bare repositories.
+   * @param path The directory to test.
+   * @returns The repository details, or undefined if `path` is not a repository.
+   */
+  async detectRepository(path: string): Promise<RepositoryInfo | undefined> {
+    const dotGit = join(path, ".git");
+    const stat = await this.statIfExists(dotGit);
+
+    if (stat?.isDirectory) {
+      return { kind: "standard", gitDir: dotGit };
+    }
+    if (stat?.isFile) {
+      return await this.resolveGitFile(path, dotGit);
+    }
+    // The git directory of a working tree looks just like a bare repository.
+    if (basename(path) !== ".git" && await this.isBareRepository(path)) {
+      return { kind: "bare", gitDir: path };
+    }
+    return undefined;
+  }
+
+  private async statIfExists(path: string): Promise<Deno.FileInfo | undefined> {
     try {
-      const gitDir = join(path, ".git");
-      const stat = await this.fileSystem.stat(gitDir);
-      return stat.isDirectory;
+      return await this.fileSystem.stat(path);
     } catch (error) {
       if (error instanceof Deno.errors.NotFound) {
-        return false;
+        return undefined;
       }
       throw error;
     }
   }
 
-  async getGitStatus(repoPath: string): Promise<GitStatus> {
-    try {
-      const statusOutput = await this._commandRunner.runCommand([
-        "git",
-        "status",
-        "--porcelain=v1",
-        "--untracked-files=all",
-      ], {
-        cwd: repoPath,
-      });
-
-      if (statusOutput.stderr.length > 0) {
-        this._log.warn(
-          `Git status stderr for ${repoPath}: ${statusOutput.stderr}`,
-        );
-      }
+  private async resolveGitFile(
+    path: string,
+    dotGit: string,
+  ): Promise<RepositoryInfo | undefined> {
+    const content = await this.fileSystem.readTextFile(dotGit);
+    const match = /^gitdir:\s*(.+)$/m.exec(content);
+    if (!match) {
+      this._log.warn(`Ignoring malformed .git file in ${path}`);
+      return undefined;
+    }
 
-      const lines = statusOutput.stdout.split("\n").filter(Boolean);
-      const hasWorkingChanges = lines.length > 0;
-
-      let hasUnpushedChanges: boolean | undefined = undefined;
-
-      // Check for unpushed changes only if there are no working changes.
-      // If there are working changes, the push command wouldn't reflect local-only commits.
-      if (!hasWorkingChanges) {
-        const revListOutput = await this._commandRunner.runCommand([
-          "git",
-          "rev-list",
-          "@{upstream}..HEAD",
-        ], {
-          cwd: repoPath,
-        });
-
-        if (revListOutput.stderr.length > 0 && !revListOutput.stderr.includes("unknown revision or path not in the working tree")) {
-            this._log.warn(
-                `Git rev-list stderr for ${repoPath}: ${revListOutput.stderr}`,
-            );
-        }
-
-        hasUnpushedChanges = revListOutput.stdout.trim().length > 0;
-      }
+    const gitDir = resolve(path, match[1].trim());
 
+    // Linked worktrees live in <common dir>/worktrees/<name>.
+    const worktree = /^(.*)[\\/]worktrees[\\/][^\\/]+$/.exec(gitDir);
+    if (worktree) {
+      const commonDir = worktree[1];
+      return {
+        kind: "worktree",
+        gitDir,
+        linkedRepository: basename(commonDir) === ".git"
+          ? dirname(commonDir)
+          : commonDir,
+      };
+    }
 
+    // Submodules live in <superproject git dir>/modules/<name>.
+    if (/[\\/]modules[\\/]/.test(gitDir)) {
       return {
-        hasWorkingChanges,
-        hasUnpushedChanges,
+        kind: "submodule",
+        gitDir,
+        linkedRepository: await this.findSuperproject(path),
       };
-    } catch (error) {
-      if (Error.isError(error)) {
-        this._log.error(
-          `Error getting git status for ${repoPath}: ${error.message}`,
-        );
-        return {
-          hasWorkingChanges: false,
-          hasUnpushedChanges: false,
-        };
+    }
+
+    // A plain `--separate-git-dir` checkout.
+    return { kind: "standard", gitDir };
+  }
+
+  private async findSuperproject(path: string): Promise<string | undefined> {
+    let current = dirname(path);
+    while (current !== dirname(current)) {
+      if (await this.statIfExists(join(current, ".git"))) {
+        return current;
       }
+      current = dirname(current);
+    }
+    return undefined;
+  }
+
+  private async isBareRepository(path: string): Promise<boolean> {
+    // Almost no directory has a HEAD file, so only look further when it does.
+    const head = await this.statIfExists(join(path, "HEAD"));
+    if (!head?.isFile) {
+      return false;
+    }
+    const [objects, refs] = await Promise.all([
+      this.statIfExists(join(path, "objects")),
+      this.statIfExists(join(path, "refs")),
+    ]);
+    return Boolean(objects?.isDirectory && refs?.isDirectory);
+  }
 
-      throw new Error(
-        `Unexpected error getting git status for ${repoPath}: ${error}`,
-      );
+  /**
+   * Reads the status of a repository.
+   * @param repoPath The working tree of the repository.
+   * @param options What to include in the status.
+   * @returns The parsed status.
+   * @throws If `git status` fails or times out, so that a broken repository
+   * is never mistaken for a clean one.
+   */
+  async getGitStatus(
+    repoPath: string,
+    options: GitStatusOptions = {},
+  ): Promise<GitStatus> {
+    const { code, stdout, stderr } = await this._runGitCommand(repoPath, [
+      "status",
+      "--porcelain=v2",
+      "--branch",
+      "--show-stash",
+      options.ignoreUntracked
+        ? "--untracked-files=no"
+        : "--untracked-files=all",
+    ], {
+      // Keep `git status` from rewriting the index, which would otherwise
+      // trigger watchers and invalidate the scan cache on every run.
+      env: { GIT_OPTIONAL_LOCKS: "0" },
+    });
+
+    if (code !== 0) {
+      throw new Error(`Git status failed: ${stderr.trim()}`);
+    }
+    if (stderr.length > 0) {
+      this._log.warn(`Git status stderr for ${repoPath}: ${stderr}`);
+    }
+
+    return parsePorcelainV2Status(stdout);
+  }
+
+  /**
+   * Lists the untracked paths git ignores in a repository, honouring its
+   * `.gitignore` files, `.git/info/exclude` and the global excludes file.
+   * Directories that are ignored as a whole are listed once, with a trailing
+   * slash, instead of file by file.
+   * @param repoPath The working tree of the repository.
+   * @returns The ignored paths, relative to `repoPath`.
+   */
+  async listIgnoredPaths(repoPath: string): Promise<string[]> {
+    const { code, stdout, stderr } = await this._runGitCommand(repoPath, [
+      "ls-files",
+      "--others",
+      "--ignored",
+      "--exclude-standard",
+      "--directory",
+      "-z",
+    ]);
+    if (code !== 0) {
+      this._log.warn(`Could not list ignored files in ${repoPath}: ${stderr}`);
+      return [];
+    }
+    return stdout.split("\0").filter(Boolean);
+  }
+
+  /**
+   * Reads the most recent commit on the current branch.
+   * @param repoPath The repository.
+   * @returns The commit, or undefined if the branch has no commits yet.
+   */
+  async getLastCommit(repoPath: string): Promise<LastCommit | undefined> {
+    const { code, stdout } = await this._runGitCommand(repoPath, [
+      "log",
+      "-1",
+      "--format=%cI%x00%an",
+    ]);
+    if (code !== 0 || stdout.trim() === "") {
+      return undefined;
+    }
+    const [date, author] = stdout.trim().split("\0");
+    return { date, author };
+  }
+
+  /**
+   * Lists the remotes of a repository, with credentials removed from URLs.
+   * @param repoPath The repository.
+   * @returns The remotes, empty if there are none.
+   */
+  async getRemotes(repoPath: string): Promise<RemoteInfo[]> {
+    const { code, stdout, stderr } = await this._runGitCommand(repoPath, [
+      "remote",
+      "-v",
+    ]);
+    if (code !== 0) {
+      throw new Error(`Git remote failed: ${stderr}`);
     }
+    return parseRemoteVerbose(stdout);
+  }
+
+  /**
+   * Finds the branch a repository integrates into: the branch `origin/HEAD`
+   * points at, or else a local `main` or `master`.
+   * @param repoPath The repository.
+   * @returns The default branch, or undefined if there is no such branch.
+   */
+  async getDefaultBranch(repoPath: string): Promise<DefaultBranch | undefined> {
+    const remoteHead = await this._runGitCommand(repoPath, [
+      "symbolic-ref",
+      "--quiet",
+      "--short",
+      "refs/remotes/origin/HEAD",
+    ]);
+    const ref = remoteHead.stdout.trim();
+    if (remoteHead.code === 0 && ref !== "") {
+      return { name: ref.replace(/^origin\//, ""), ref };
+    }
+
+    const { code, stdout, stderr } = await this._runGitCommand(repoPath, [
+      "for-each-ref",
+      "--format=%(refname:short)",
+      "refs/heads/main",
+      "refs/heads/master",
+    ]);
+    if (code !== 0) {
+      throw new Error(`Git for-each-ref failed: ${stderr}`);
+    }
+    const name = stdout.split("\n").find(Boolean);
+    return name !== undefined ? { name, ref: name } : undefined;
+  }
+
+  /**
+   * Lists the local branches of a repository with their upstream tracking.
+   * @param repoPath The repository.
+   * @param mergedInto Marks the branches fully merged into this ref.
+   * @returns The branches, sorted by name.
+   */
+  async listBranches(
+    repoPath: string,
+    mergedInto?: string,
+  ): Promise<BranchInfo[]> {
+    const { code, stdout, stderr } = await this._runGitCommand(repoPath, [
+      "for-each-ref",
+      `--format=${BRANCH_REF_FORMAT}`,
+      "refs/heads",
+    ]);
+    if (code !== 0) {
+      throw new Error(`Git for-each-ref failed: ${stderr}`);
+    }
+    const branches = parseBranchRefs(stdout);
+    if (mergedInto === undefined) {
+      return branches;
+    }
+
+    const merged = await this._runGitCommand(repoPath, [
+      "for-each-ref",
+      "--format=%(refname:short)",
+      `--merged=${mergedInto}`,
+      "refs/heads",
+    ]);
+    if (merged.code !== 0) {
+      throw new Error(`Git for-each-ref failed: ${merged.stderr}`);
+    }
+    const mergedNames = new Set(merged.stdout.split("\n").filter(Boolean));
+    return branches.map((branch) => ({
+      ...branch,
+      merged: mergedNames.has(branch.name),
+    }));
+  }
+
+  /**
+   * Deletes a local branch, whether or not it is merged. Callers decide
+   * what is safe to delete; git still refuses to delete a branch that is
+   * checked out.
+   * @param repoPath The repository.
+   * @param branch The branch name.
+   */
+  async deleteBranch(repoPath: string, branch: string): Promise<void> {
+    const { code, stderr } = await this._runGitCommand(repoPath, [
+      "branch",
+      "--delete",
+      "--force",
+      "--",
+      branch,
+    ]);
+    if (code !== 0) {
+      throw new Error(`Git branch delete failed: ${stderr}`);
+    }
+  }
+
+  /**
+   * Finds the operations waiting to be continued or aborted, from the state
+   * files git keeps in the git directory while they run.
+   * @param gitDir The git directory of the working tree.
+   * @returns The operations in progress, usually none.
+   */
+  async getInProgressOperations(
+    gitDir: string,
+  ): Promise<InProgressOperation[]> {
+    const stateFiles: [InProgressOperation, string][] = [
+      // `rebase-merge` for interactive and merge rebases, `rebase-apply` for
+      // `git am` and the old apply backend.
+      ["rebase", "rebase-merge"],
+      ["rebase", "rebase-apply"],
+      ["merge", "MERGE_HEAD"],
+      ["cherry-pick", "CHERRY_PICK_HEAD"],
+      ["bisect", "BISECT_LOG"],
+    ];
+    const found = await Promise.all(
+      stateFiles.map(([, file]) => this.statIfExists(join(gitDir, file))),
+    );
+    const operations = stateFiles
+      .filter((_, index) => found[index] !== undefined)
+      .map(([operation]) => operation);
+    return [...new Set(operations)];
+  }
+
+  /**
+   * Tells whether a repository is a shallow clone, with truncated history.
+   * @param repoPath The repository.
+   * @returns True if the repository is shallow.
+   */
+  async isShallowRepository(repoPath: string): Promise<boolean> {
+    const { code, stdout, stderr } = await this._runGitCommand(repoPath, [
+      "rev-parse",
+      "--is-shallow-repository",
+    ]);
+    if (code !== 0) {
+      throw new Error(`Git rev-parse failed: ${stderr}`);
+    }
+    return stdout.trim() === "true";
+  }
+
+  /**
+   * Lists the untracked files that are not ignored and at least `minBytes`
+   * large.
+   * @param repoPath The working tree of the repository.
+   * @param minBytes The smallest size reported.
+   * @returns The files, relative to `repoPath`, largest first.
+   */
+  async findLargeUntrackedFiles(
+    repoPath: string,
+    minBytes: number,
+  ): Promise<{ path: string; size: number }[]> {
+    const { code, stdout, stderr } = await this._runGitCommand(repoPath, [
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+      "-z",
+    ]);
+    if (code !== 0) {
+      throw new Error(`Git ls-files failed: ${stderr}`);
+    }
+
+    const files: { path: string; size: number }[] = [];
+    for (const path of stdout.split("\0").filter(Boolean)) {
+      const stat = await this.statIfExists(join(repoPath, path));
+      if (stat?.isFile && stat.size >= minBytes) {
+        files.push({ path, size: stat.size });
+      }
+    }
+    return files.sort((a, b) => b.size - a.size);
   }
 
   private async _runGitCommand(
     repoPath: string,
     args: string[],
+    options: { env?: Record<string, string>; network?: boolean } = {},
   ): Promise<{ code: number; stdout: string; stderr: string }> {
+    const sshArgs = options.network
+      ? await this.batchModeSshArgs(repoPath)
+      : [];
     const output = await this._commandRunner.runCommand([
       "git",
+      ...sshArgs,
       ...args,
     ], {
       cwd: repoPath,
+      env: { ...this.nonInteractiveEnv(), ...options.env },
+      timeoutMs: options.network
+        ? this._options.networkTimeoutMs ?? DEFAULT_NETWORK_TIMEOUT_MS
+        : this._options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      signal: this._options.signal,
     });
 
     return output;
   }
 
+  /**
+   * Environment that makes git fail instead of prompting for credentials,
+   * which would stall a scan forever. An ssh command the user set is left
+   * alone; see `batchModeSshArgs` for plain ssh.
+   */
+  private nonInteractiveEnv(): Record<string, string> {
+    return { GIT_TERMINAL_PROMPT: "0", GCM_INTERACTIVE: "never" };
+  }
+
+  /**
+   * Arguments that keep ssh from prompting for passphrases or unknown host
+   * keys. `core.sshCommand` wins over `GIT_SSH`, so it is only set when
+   * neither the environment nor the git configuration chose an ssh command.
+   * @param repoPath The repository whose configuration applies.
+   * @returns The `-c` option to pass to git, or nothing.
+   */
+  private async batchModeSshArgs(repoPath: string): Promise<string[]> {
+    if (this._env.get("GIT_SSH_COMMAND") || this._env.get("GIT_SSH")) {
+      return [];
+    }
+    const { code } = await this._runGitCommand(repoPath, [
+      "config",
+      "--get",
+      "core.sshCommand",
+    ]);
+    return code === 0 ? [] : ["-c", "core.sshCommand=ssh -o BatchMode=yes"];
+  }
+
   async init(repoPath: string): Promise<void> {
     const { code, stderr } = await this._runGitCommand(repoPath, ["init"]);
     if (code !== 0) {
@@ -134,4 +504,23 @@ export class GitService {
       throw new Error(`Git commit failed: ${stderr}`);
     }
   }
-}
\ No newline at end of file
+
+  async fetch(repoPath: string): Promise<void> {
+    const { code, stderr } = await this._runGitCommand(repoPath, ["fetch"], {
+      network: true,
+    });
+    if (code !== 0) {
+      throw new Error(`Git fetch failed: ${stderr}`);
+    }
+  }
+
+  async pullFastForward(repoPath: string): Promise<void> {
+    const { code, stderr } = await this._runGitCommand(repoPath, [
+      "pull",
+      "--ff-only",
+    ], { network: true });
+    if (code !== 0) {
+      throw new Error(`Git pull failed: ${stderr}`);
+    }
+  }
+}
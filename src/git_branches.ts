@@ -0,0 +1,61 @@
+export interface BranchInfo {
+  name: string;
+  /** Abbreviated name of the upstream branch, e.g. `origin/main`. */
+  upstream?: string;
+  /** The upstream is configured but no longer exists on the remote. */
+  gone: boolean;
+  ahead: number;
+  behind: number;
+  /** Checked out in this working tree. */
+  current: boolean;
+  /** Working tree the branch is checked out in, this one or a linked one. */
+  worktreePath?: string;
+  /** Fully merged into the default branch. */
+  merged: boolean;
+}
+
+export interface DefaultBranch {
+  /** Name of the local branch, e.g. `main`. */
+  name: string;
+  /**
+   * What other branches are checked against for being merged: the
+   * remote-tracking branch, e.g. `origin/main`, when there is one.
+   */
+  ref: string;
+}
+
+/** Branch names that are never pruned unless configured otherwise. */
+export const DEFAULT_PROTECTED_BRANCHES = ["main", "master", "develop"];
+
+/** Fields of `git for-each-ref` read by {@link parseBranchRefs}, in order. */
+export const BRANCH_REF_FORMAT = [
+  "%(refname:short)",
+  "%(upstream:short)",
+  "%(upstream:track,nobracket)",
+  "%(HEAD)",
+  "%(worktreepath)",
+].join("%00");
+
+/**
+ * Parses the output of `git for-each-ref --format=<BRANCH_REF_FORMAT> refs/heads`.
+ * @param output The raw stdout of the command.
+ * @returns One entry per local branch, none of them marked as merged.
+ */
+export function parseBranchRefs(output: string): BranchInfo[] {
+  return output.split("\n").filter(Boolean).map((line) => {
+    const [name, upstream, track, head, worktreePath] = line.split("\0");
+    // "ahead 1, behind 2", "ahead 1", "behind 2", "gone" or empty.
+    const ahead = /ahead (\d+)/.exec(track ?? "");
+    const behind = /behind (\d+)/.exec(track ?? "");
+    return {
+      name,
+      upstream: upstream || undefined,
+      gone: track === "gone",
+      ahead: ahead ? Number(ahead[1]) : 0,
+      behind: behind ? Number(behind[1]) : 0,
+      current: head === "*",
+      worktreePath: worktreePath || undefined,
+      merged: false,
+    };
+  });
+}
@@ -0,0 +1,58 @@
+import { assertEquals } from "@std/assert";
+import { parseBranchRefs } from "./git_branches.ts";
+
+Deno.test("parseBranchRefs reads tracking, gone upstreams and worktrees", () => {
+  const branches = parseBranchRefs(
+    [
+      ["feature/x", "origin/feature/x", "ahead 2, behind 1", " ", ""],
+      ["main", "origin/main", "", "*", "/src/app"],
+      ["old", "origin/old", "gone", " ", ""],
+      ["spike", "", "", " ", "/src/app-spike"],
+      "",
+    ].map((fields) => typeof fields === "string" ? fields : fields.join("\0"))
+      .join("\n"),
+  );
+
+  assertEquals(branches, [
+    {
+      name: "feature/x",
+      upstream: "origin/feature/x",
+      gone: false,
+      ahead: 2,
+      behind: 1,
+      current: false,
+      worktreePath: undefined,
+      merged: false,
+    },
+    {
+      name: "main",
+      upstream: "origin/main",
+      gone: false,
+      ahead: 0,
+      behind: 0,
+      current: true,
+      worktreePath: "/src/app",
+      merged: false,
+    },
+    {
+      name: "old",
+      upstream: "origin/old",
+      gone: true,
+      ahead: 0,
+      behind: 0,
+      current: false,
+      worktreePath: undefined,
+      merged: false,
+    },
+    {
+      name: "spike",
+      upstream: undefined,
+      gone: false,
+      ahead: 0,
+      behind: 0,
+      current: false,
+      worktreePath: "/src/app-spike",
+      merged: false,
+    },
+  ]);
+});
@@ -0,0 +1,104 @@
+export interface GitStatus {
+  hasWorkingChanges: boolean;
+  hasUnpushedChanges?: boolean;
+  /** Current branch name, undefined when HEAD is detached. */
+  branch?: string;
+  detached: boolean;
+  /** Abbreviated name of the upstream branch, e.g. `origin/main`. */
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  staged: number;
+  unstaged: number;
+  untracked: number;
+  conflicted: number;
+  stashes: number;
+}
+
+/**
+ * Creates a GitStatus describing a clean repository with no branch information.
+ * @returns A new GitStatus object with every counter set to zero.
+ */
+export function emptyGitStatus(): GitStatus {
+  return {
+    hasWorkingChanges: false,
+    hasUnpushedChanges: false,
+    detached: false,
+    ahead: 0,
+    behind: 0,
+    staged: 0,
+    unstaged: 0,
+    untracked: 0,
+    conflicted: 0,
+    stashes: 0,
+  };
+}
+
+/**
+ * Parses the output of `git status --porcelain=v2 --branch --show-stash`.
+ * @param output The raw stdout of the git status command.
+ * @returns The parsed GitStatus.
+ */
+export function parsePorcelainV2Status(output: string): GitStatus {
+  const status = emptyGitStatus();
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("# ")) {
+      parseHeaderLine(line.slice(2), status);
+      continue;
+    }
+
+    switch (line[0]) {
+      case "1":
+      case "2": {
+        // "1 XY ..." / "2 XY ..." where X is the index and Y the worktree state.
+        const [indexState, worktreeState] = line.slice(2, 4);
+        if (indexState !== ".") status.staged++;
+        if (worktreeState !== ".") status.unstaged++;
+        break;
+      }
+      case "u":
+        status.conflicted++;
+        break;
+      case "?":
+        status.untracked++;
+        break;
+    }
+  }
+
+  status.hasWorkingChanges = status.staged + status.unstaged +
+      status.untracked + status.conflicted > 0;
+  status.hasUnpushedChanges = status.ahead > 0;
+
+  return status;
+}
+
+function parseHeaderLine(header: string, status: GitStatus): void {
+  const separator = header.indexOf(" ");
+  const key = header.slice(0, separator);
+  const value = header.slice(separator + 1);
+
+  switch (key) {
+    case "branch.head":
+      if (value === "(detached)") {
+        status.detached = true;
+      } else {
+        status.branch = value;
+      }
+      break;
+    case "branch.upstream":
+      status.upstream = value;
+      break;
+    case "branch.ab": {
+      const match = /^\+(\d+) -(\d+)$/.exec(value);
+      if (match) {
+        status.ahead = Number(match[1]);
+        status.behind = Number(match[2]);
+      }
+      break;
+    }
+    case "stash":
+      status.stashes = Number(value) || 0;
+      break;
+  }
+}
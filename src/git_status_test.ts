@@ -0,0 +1,66 @@
+import { assertEquals } from "@std/assert";
+import { emptyGitStatus, parsePorcelainV2Status } from "./git_status.ts";
+
+Deno.test("parsePorcelainV2Status reports a clean tracking branch", () => {
+  const status = parsePorcelainV2Status(
+    [
+      "# branch.oid 2b1f0d3c9e8a7b6c5d4e3f2a1b0c9d8e7f6a5b4c",
+      "# branch.head main",
+      "# branch.upstream origin/main",
+      "# branch.ab +0 -0",
+      "",
+    ].join("\n"),
+  );
+
+  assertEquals(status, {
+    ...emptyGitStatus(),
+    branch: "main",
+    upstream: "origin/main",
+  });
+});
+
+Deno.test("parsePorcelainV2Status counts changes, divergence and stashes", () => {
+  const status = parsePorcelainV2Status(
+    [
+      "# branch.oid 2b1f0d3c9e8a7b6c5d4e3f2a1b0c9d8e7f6a5b4c",
+      "# branch.head feature/x",
+      "# branch.upstream origin/feature/x",
+      "# branch.ab +2 -1",
+      "# stash 3",
+      "1 M. N... 100644 100644 100644 aaa bbb staged.ts",
+      "1 .M N... 100644 100644 100644 aaa bbb unstaged.ts",
+      "1 MM N... 100644 100644 100644 aaa bbb both.ts",
+      "2 R. N... 100644 100644 100644 aaa bbb R100 new.ts\told.ts",
+      "u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts",
+      "? untracked-1.txt",
+      "? untracked-2.txt",
+      "! ignored.log",
+      "",
+    ].join("\n"),
+  );
+
+  assertEquals(status, {
+    hasWorkingChanges: true,
+    hasUnpushedChanges: true,
+    branch: "feature/x",
+    detached: false,
+    upstream: "origin/feature/x",
+    ahead: 2,
+    behind: 1,
+    staged: 3,
+    unstaged: 2,
+    untracked: 2,
+    conflicted: 1,
+    stashes: 3,
+  });
+});
+
+Deno.test("parsePorcelainV2Status detects a detached HEAD", () => {
+  const status = parsePorcelainV2Status(
+    "# branch.oid 2b1f0d3c\n# branch.head (detached)\n",
+  );
+
+  assertEquals(status.detached, true);
+  assertEquals(status.branch, undefined);
+  assertEquals(status.upstream, undefined);
+});
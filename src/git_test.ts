@@ -0,0 +1,138 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import {
+  CommandOptions,
+  CommandResult,
+  CommandRunner,
+  DenoCommandRunner,
+} from "./command_runner.ts";
+import { DenoFileSystem } from "./file_system.ts";
+import { GitService } from "./git.ts";
+import { git, silentLog, withTempDir } from "../test/test_helpers.ts";
+
+/** Answers every command with success, except for `core.sshCommand` lookups. */
+class RecordingRunner implements CommandRunner {
+  public calls: { args: string[]; env?: Record<string, string> }[] = [];
+
+  constructor(private readonly _sshCommandConfigured: boolean) {
+  }
+
+  runCommand(args: string[], opts: CommandOptions): Promise<CommandResult> {
+    this.calls.push({ args, env: opts.env });
+    const lookup = args.includes("core.sshCommand") && args[1] === "config";
+    const code = lookup && !this._sshCommandConfigured ? 1 : 0;
+    return Promise.resolve({ stdout: "", stderr: "", success: true, code });
+  }
+}
+
+async function fetchWith(
+  env: Record<string, string>,
+  sshCommandConfigured = false,
+): Promise<{ args: string[]; env?: Record<string, string> }> {
+  const runner = new RecordingRunner(sshCommandConfigured);
+  const git = new GitService(
+    new DenoFileSystem(),
+    runner,
+    silentLog,
+    {},
+    { get: (key) => env[key] },
+  );
+  await git.fetch("/src/app");
+  return runner.calls[runner.calls.length - 1];
+}
+
+Deno.test("GitService runs ssh in batch mode when nothing else is configured", async () => {
+  const { args, env } = await fetchWith({});
+  assertEquals(args, [
+    "git",
+    "-c",
+    "core.sshCommand=ssh -o BatchMode=yes",
+    "fetch",
+  ]);
+  assertEquals(env?.GIT_SSH_COMMAND, undefined);
+  assertEquals(env?.GIT_TERMINAL_PROMPT, "0");
+});
+
+Deno.test("GitService keeps the ssh command the user configured", async () => {
+  const fromEnv = await fetchWith({ GIT_SSH_COMMAND: "ssh -i ~/.ssh/work" });
+  assertEquals(fromEnv.args, ["git", "fetch"]);
+  assertEquals(fromEnv.env?.GIT_SSH_COMMAND, undefined);
+
+  const wrapper = await fetchWith({ GIT_SSH: "/usr/local/bin/ssh-wrapper" });
+  assertEquals(wrapper.args, ["git", "fetch"]);
+  assertEquals(wrapper.env?.GIT_SSH_COMMAND, undefined);
+
+  const fromConfig = await fetchWith({}, true);
+  assertEquals(fromConfig.args, ["git", "fetch"]);
+  assertEquals(fromConfig.env?.GIT_SSH_COMMAND, undefined);
+});
+
+/** Records every path that is stat'ed. */
+class StatRecorder extends DenoFileSystem {
+  public statPaths: string[] = [];
+
+  override stat(path: string): Promise<Deno.FileInfo> {
+    this.statPaths.push(path);
+    return super.stat(path);
+  }
+}
+
+Deno.test("GitService detects bare repositories but not the .git directory of one", async () => {
+  await withTempDir(async (dir) => {
+    const bare = join(dir, "bare.git");
+    const app = join(dir, "app");
+    const plain = join(dir, "plain");
+    await git(dir, "init", "--bare", bare);
+    await git(dir, "init", app);
+    await Deno.mkdir(join(plain, "objects"), { recursive: true });
+
+    const fileSystem = new StatRecorder();
+    const gitService = new GitService(
+      fileSystem,
+      new RecordingRunner(false),
+      silentLog,
+    );
+    assertEquals(await gitService.detectRepository(bare), {
+      kind: "bare",
+      gitDir: bare,
+    });
+    assertEquals(await gitService.detectRepository(app), {
+      kind: "standard",
+      gitDir: join(app, ".git"),
+    });
+    assertEquals(
+      await gitService.detectRepository(join(app, ".git")),
+      undefined,
+    );
+
+    // A directory without a HEAD file is not probed any further.
+    fileSystem.statPaths = [];
+    assertEquals(await gitService.detectRepository(plain), undefined);
+    assertEquals(fileSystem.statPaths, [
+      join(plain, ".git"),
+      join(plain, "HEAD"),
+    ]);
+  });
+});
+
+Deno.test("GitService lists ignored paths, with an ignored directory once", async () => {
+  await withTempDir(async (dir) => {
+    await git(dir, "init", "-b", "main");
+    await Deno.writeTextFile(join(dir, ".gitignore"), "*.log\nbuild/\n");
+    await Deno.mkdir(join(dir, "build", "out"), { recursive: true });
+    await Deno.writeTextFile(join(dir, "build", "out", "app.js"), "");
+    await Deno.writeTextFile(join(dir, "debug.log"), "");
+    await Deno.writeTextFile(join(dir, "main.ts"), "");
+
+    const fileSystem = new DenoFileSystem();
+    const gitService = new GitService(
+      fileSystem,
+      new DenoCommandRunner(),
+      silentLog,
+    );
+    assertEquals(
+      (await gitService.listIgnoredPaths(dir)).sort(),
+      ["build/", "debug.log"],
+    );
+  });
+});
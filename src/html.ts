@@ -0,0 +1,123 @@
+import {
+  formatActivity,
+  formatCollapsedCount,
+  formatLinkNote,
+  formatRepositoryKind,
+  formatStatusBadges,
+} from "./format.ts";
+import {
+  formatHealthWarning,
+  HEALTH_WARNING_LABELS,
+  HealthWarningKind,
+} from "./doctor.ts";
+import { getRepositoryState, summarizeRepositories } from "./summary.ts";
+import { ItemInfo, ItemType } from "./types.ts";
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+  header { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
+  .count { padding: 0.5rem 1rem; border-radius: 6px; background: #f6f8fa; }
+  .count strong { display: block; font-size: 1.5rem; }
+  ul { list-style: none; padding-left: 1.25rem; margin: 0; }
+  li { margin: 0.15rem 0; }
+  summary { cursor: pointer; }
+  .directory { font-weight: 600; }
+  .file { color: #57606a; }
+  .repo { font-weight: 600; }
+  .badges { font-family: ui-monospace, monospace; font-size: 0.85em; color: #57606a; }
+  .link { font-style: italic; color: #57606a; }
+  .ignored { opacity: 0.5; }
+  .clean { color: #1a7f37; }
+  .dirty { color: #cf222e; }
+  .unpushed { color: #9a6700; }
+  .bare { color: #0969da; }
+  .error { color: #8250df; }
+  .warning { color: #9a6700; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatHtmlLabel(item: ItemInfo): string {
+  const name = escapeHtml(item.name);
+  switch (item.type) {
+    case ItemType.RepoDirectory: {
+      const state = getRepositoryState(item);
+      const details = [
+        item.gitStatus ? formatStatusBadges(item.gitStatus) : "",
+        item.error ?? "",
+        item.repository ? formatRepositoryKind(item.repository) : "",
+        formatCollapsedCount(item),
+        item.activity ? formatActivity(item.activity) : "",
+        item.remotes?.length === 0 ? "⚠ no remote" : "",
+        ...(item.warnings ?? []).map(formatHealthWarning),
+      ].filter(Boolean).join(" ");
+      return `<span class="repo ${state}" title="${state}">${name}</span>` +
+        (details ? ` <span class="badges">${escapeHtml(details)}</span>` : "");
+    }
+    case ItemType.Directory:
+      return `<span class="directory">${name}/</span>`;
+    default:
+      return `<span class="file">${name}</span>`;
+  }
+}
+
+function formatHtmlItem(item: ItemInfo): string {
+  const linkNote = formatLinkNote(item);
+  const label = formatHtmlLabel(item) +
+    (linkNote ? ` <span class="link">${escapeHtml(linkNote)}</span>` : "");
+  const open = item.ignored ? `<li class="ignored">` : "<li>";
+  if (item.children.length === 0) {
+    return `${open}${label}</li>`;
+  }
+  const children = item.children.map(formatHtmlItem).join("");
+  return `${open}<details open><summary>${label}</summary><ul>${children}</ul></details></li>`;
+}
+
+/**
+ * Renders the ItemInfo tree as a single self-contained HTML page with
+ * collapsible directories and a summary of repository states.
+ * @param root The root ItemInfo object.
+ * @returns The HTML document.
+ */
+export function formatHtmlReport(root: ItemInfo): string {
+  const summary = summarizeRepositories(root);
+  const title = `Repositories in ${escapeHtml(root.path)}`;
+  const counts = [
+    ["repositories", summary.repositories, ""],
+    ["clean", summary.clean, "clean"],
+    ["dirty", summary.dirty, "dirty"],
+    ["unpushed", summary.unpushed, "unpushed"],
+    ["unknown/error", summary.error, "error"],
+    ...(Object.keys(HEALTH_WARNING_LABELS) as HealthWarningKind[])
+      .filter((kind) => (summary.warnings[kind] ?? 0) > 0)
+      .map((kind) => [
+        `⚠ ${HEALTH_WARNING_LABELS[kind]}`,
+        summary.warnings[kind] ?? 0,
+        "warning",
+      ]),
+  ].map(([label, count, className]) =>
+    `<div class="count ${className}"><strong>${count}</strong>${label}</div>`
+  ).join("");
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${STYLES}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${title}</h1>`,
+    `<header>${counts}</header>`,
+    `<ul>${formatHtmlItem(root)}</ul>`,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
@@ -0,0 +1,73 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { formatHtmlReport } from "./html.ts";
+import {
+  directoryItem,
+  fileItem,
+  repoItem,
+  repoStatus,
+} from "../test/item_fixtures.ts";
+
+/** The list of items, without the page around it. */
+function listOf(html: string): string {
+  return html.split("\n").find((line) => line.startsWith("<ul>")) ?? "";
+}
+
+Deno.test("formatHtmlReport renders directories as collapsible lists", () => {
+  const ignored = directoryItem("/work/dist", [fileItem("/work/dist/app.js")]);
+  ignored.ignored = true;
+  const root = directoryItem("/work", [
+    repoItem("/work/app", {
+      gitStatus: repoStatus({ hasWorkingChanges: true, unstaged: 2 }),
+    }),
+    ignored,
+  ]);
+
+  const html = formatHtmlReport(root);
+  assert(html.startsWith("<!DOCTYPE html>"));
+  assertStringIncludes(
+    html,
+    '<div class="count dirty"><strong>1</strong>dirty</div>',
+  );
+  assertEquals(
+    listOf(html),
+    '<ul><li><details open><summary><span class="directory">work/</span></summary><ul>' +
+      '<li><span class="repo dirty" title="dirty">app</span> <span class="badges">main ~2</span></li>' +
+      '<li class="ignored"><details open><summary><span class="directory">dist/</span></summary>' +
+      '<ul><li><span class="file">app.js</span></li></ul></details></li>' +
+      "</ul></details></li></ul>",
+  );
+});
+
+Deno.test("formatHtmlReport counts the items of a collapsed repository", () => {
+  const root = directoryItem("/work", [
+    repoItem("/work/one", { collapsedChildCount: 1 }),
+    repoItem("/work/many", { collapsedChildCount: 3 }),
+    repoItem("/work/empty", { collapsedChildCount: 0 }),
+  ]);
+
+  const list = listOf(formatHtmlReport(root));
+  assertStringIncludes(list, '<span class="badges">main (1 item)</span>');
+  assertStringIncludes(list, '<span class="badges">main (3 items)</span>');
+  assertStringIncludes(list, '<span class="badges">main (0 items)</span>');
+});
+
+Deno.test("formatHtmlReport escapes names, paths and errors", () => {
+  const root = directoryItem("/work/<b>", [
+    fileItem('/work/<b>/<img src=x onerror="alert(1)">'),
+    repoItem("/work/<b>/a&b", {
+      gitStatus: undefined,
+      error: "fatal: <bad> HEAD",
+    }),
+  ]);
+
+  const html = formatHtmlReport(root);
+  assertStringIncludes(html, "<title>Repositories in /work/&lt;b&gt;</title>");
+  assertStringIncludes(
+    html,
+    '<span class="file">&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</span>',
+  );
+  assertStringIncludes(html, ">a&amp;b</span>");
+  assertStringIncludes(html, "fatal: &lt;bad&gt; HEAD");
+  assertEquals(html.includes("<img"), false);
+  assertEquals(html.includes("<bad>"), false);
+});
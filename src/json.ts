@@ -0,0 +1,125 @@
+import { HealthWarning } from "./doctor.ts";
+import { RepositoryActivity, RepositoryInfo } from "./git.ts";
+import { GitStatus } from "./git_status.ts";
+import { RemoteInfo } from "./remotes.ts";
+import { ItemInfo, ItemType } from "./types.ts";
+
+/**
+ * Version of the JSON / NDJSON output schema.
+ * Bump this whenever a field is renamed, removed or changes meaning.
+ */
+export const SCHEMA_VERSION = 1;
+
+export type JsonItemType = "file" | "directory" | "repository" | "unknown";
+
+export interface JsonItem {
+  name: string;
+  path: string;
+  type: JsonItemType;
+  containsRepo: boolean;
+  allPathsLeadToRepo: boolean;
+  gitStatus?: GitStatus;
+  error?: string;
+  repository?: RepositoryInfo;
+  activity?: RepositoryActivity;
+  remotes?: RemoteInfo[];
+  symlinkTarget?: string;
+  aliasOf?: string;
+  ignored?: boolean;
+  collapsedChildCount?: number;
+  warnings?: HealthWarning[];
+  children: JsonItem[];
+}
+
+export interface JsonDocument {
+  schemaVersion: number;
+  root: JsonItem;
+}
+
+export interface NdjsonRepositoryRecord {
+  schemaVersion: number;
+  name: string;
+  path: string;
+  type: JsonItemType;
+  gitStatus?: GitStatus;
+  error?: string;
+  repository?: RepositoryInfo;
+  activity?: RepositoryActivity;
+  remotes?: RemoteInfo[];
+  symlinkTarget?: string;
+  warnings?: HealthWarning[];
+}
+
+function toJsonItemType(type: ItemType): JsonItemType {
+  switch (type) {
+    case ItemType.File:
+      return "file";
+    case ItemType.Directory:
+      return "directory";
+    case ItemType.RepoDirectory:
+      return "repository";
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Converts an ItemInfo tree into its serializable JSON representation.
+ * @param item The ItemInfo object.
+ * @returns The JSON representation of the item and all of its children.
+ */
+export function toJsonItem(item: ItemInfo): JsonItem {
+  return {
+    name: item.name,
+    path: item.path,
+    type: toJsonItemType(item.type),
+    containsRepo: item.containsRepo,
+    allPathsLeadToRepo: item.allPathsLeadToRepo,
+    gitStatus: item.gitStatus,
+    error: item.error,
+    repository: item.repository,
+    activity: item.activity,
+    remotes: item.remotes,
+    symlinkTarget: item.symlinkTarget,
+    aliasOf: item.aliasOf,
+    ignored: item.ignored,
+    collapsedChildCount: item.collapsedChildCount,
+    warnings: item.warnings,
+    children: item.children.map(toJsonItem),
+  };
+}
+
+/**
+ * Serializes the whole ItemInfo tree as a single JSON document.
+ * @param root The root ItemInfo object.
+ * @returns The pretty-printed JSON document.
+ */
+export function formatJsonDocument(root: ItemInfo): string {
+  const document: JsonDocument = {
+    schemaVersion: SCHEMA_VERSION,
+    root: toJsonItem(root),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Serializes a single repository as one NDJSON line.
+ * @param item The ItemInfo object for a repository.
+ * @returns The record as a single line of JSON, without a trailing newline.
+ */
+export function formatNdjsonRecord(item: ItemInfo): string {
+  const record: NdjsonRepositoryRecord = {
+    schemaVersion: SCHEMA_VERSION,
+    name: item.name,
+    path: item.path,
+    type: toJsonItemType(item.type),
+    gitStatus: item.gitStatus,
+    error: item.error,
+    repository: item.repository,
+    activity: item.activity,
+    remotes: item.remotes,
+    symlinkTarget: item.symlinkTarget,
+    warnings: item.warnings,
+  };
+  return JSON.stringify(record);
+}
@@ -0,0 +1,94 @@
+import { assertEquals, assertFalse } from "@std/assert";
+import { emptyGitStatus } from "./git_status.ts";
+import {
+  formatJsonDocument,
+  formatNdjsonRecord,
+  SCHEMA_VERSION,
+} from "./json.ts";
+import {
+  directoryItem,
+  fileItem,
+  repoItem,
+  repoStatus,
+} from "../test/item_fixtures.ts";
+
+const tracking = repoItem("/work/app", {
+  gitStatus: repoStatus({
+    upstream: "origin/main",
+    ahead: 1,
+    hasUnpushedChanges: true,
+  }),
+  remotes: [{ name: "origin", url: "https://example.com/app.git" }],
+});
+
+const withoutUpstream = repoItem("/work/lib", {
+  gitStatus: repoStatus({ branch: "topic" }),
+  remotes: [],
+});
+
+const broken = repoItem("/work/broken", {
+  gitStatus: undefined,
+  error: "Git status failed: fatal: bad object HEAD",
+});
+
+Deno.test("formatNdjsonRecord writes one versioned line per repository", () => {
+  const line = formatNdjsonRecord(tracking);
+  assertFalse(line.includes("\n"));
+  assertEquals(JSON.parse(line), {
+    schemaVersion: SCHEMA_VERSION,
+    name: "app",
+    path: "/work/app",
+    type: "repository",
+    gitStatus: {
+      ...emptyGitStatus(),
+      branch: "main",
+      upstream: "origin/main",
+      ahead: 1,
+      hasUnpushedChanges: true,
+    },
+    repository: { kind: "standard", gitDir: "/work/app/.git" },
+    remotes: [{ name: "origin", url: "https://example.com/app.git" }],
+  });
+});
+
+Deno.test("formatNdjsonRecord leaves out what a repository does not have", () => {
+  const record = JSON.parse(formatNdjsonRecord(withoutUpstream));
+  assertFalse("upstream" in record.gitStatus);
+  assertFalse("error" in record);
+  assertEquals(record.gitStatus.branch, "topic");
+  assertEquals(record.remotes, []);
+
+  const failed = JSON.parse(formatNdjsonRecord(broken));
+  assertEquals(failed.error, "Git status failed: fatal: bad object HEAD");
+  assertFalse("gitStatus" in failed);
+  assertFalse("remotes" in failed);
+});
+
+Deno.test("formatJsonDocument nests every item under a versioned root", () => {
+  const root = directoryItem("/work", [
+    tracking,
+    withoutUpstream,
+    broken,
+    fileItem("/work/notes.txt"),
+  ]);
+
+  const document = JSON.parse(formatJsonDocument(root));
+  assertEquals(Object.keys(document), ["schemaVersion", "root"]);
+  assertEquals(document.schemaVersion, SCHEMA_VERSION);
+  assertEquals(document.root.type, "directory");
+  assertEquals(document.root.containsRepo, true);
+  assertEquals(
+    document.root.children.map((item: { type: string }) => item.type),
+    ["repository", "repository", "repository", "file"],
+  );
+  assertEquals(document.root.children[1].gitStatus.upstream, undefined);
+  assertEquals(document.root.children[2].error, broken.error);
+  assertEquals(document.root.children[3], {
+    name: "notes.txt",
+    path: "/work/notes.txt",
+    type: "file",
+    containsRepo: false,
+    allPathsLeadToRepo: false,
+    children: [],
+  });
+});
@@ -0,0 +1,109 @@
+import { formatHealthWarning, formatHealthWarningCounts } from "./doctor.ts";
+import {
+  formatActivity,
+  formatCollapsedCount,
+  formatLinkNote,
+  formatRepositoryKind,
+  formatStatusBadges,
+} from "./format.ts";
+import {
+  getRepositoryState,
+  RepositoryState,
+  summarizeRepositories,
+} from "./summary.ts";
+import { ItemInfo, ItemType } from "./types.ts";
+
+const STATE_BADGES: Record<RepositoryState, string> = {
+  clean: "🟢 clean",
+  dirty: "🔴 dirty",
+  unpushed: "🟡 unpushed",
+  bare: "📦 bare",
+  error: "⚠️ unknown/error",
+};
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_\[\]|<>])/g, "\\$1");
+}
+
+function formatMarkdownItem(item: ItemInfo): string {
+  const notes = [formatLinkNote(item), item.ignored ? "(ignored)" : ""]
+    .filter(Boolean)
+    .map((note) => `_${escapeMarkdown(note)}_`);
+  return [formatMarkdownLabel(item), ...notes].join(" ");
+}
+
+function formatMarkdownLabel(item: ItemInfo): string {
+  switch (item.type) {
+    case ItemType.RepoDirectory: {
+      const parts = [
+        `**${escapeMarkdown(item.name)}**`,
+        STATE_BADGES[getRepositoryState(item)],
+      ];
+      if (item.gitStatus) {
+        parts.push(`\`${formatStatusBadges(item.gitStatus)}\``);
+      } else if (item.error !== undefined) {
+        parts.push(`_${escapeMarkdown(item.error.trim().split("\n")[0])}_`);
+      }
+      // Bare repositories already say so in their state badge.
+      const repository = item.repository;
+      const kind = repository && repository.kind !== "bare"
+        ? formatRepositoryKind(repository)
+        : "";
+      if (kind) {
+        parts.push(`_${escapeMarkdown(kind)}_`);
+      }
+      const count = formatCollapsedCount(item);
+      if (count) {
+        parts.push(count);
+      }
+      const activity = item.activity ? formatActivity(item.activity) : "";
+      if (activity) {
+        parts.push(`· ${activity}`);
+      }
+      if (item.remotes?.length === 0) {
+        parts.push("⚠ **no remote**");
+      }
+      for (const warning of item.warnings ?? []) {
+        parts.push(escapeMarkdown(formatHealthWarning(warning)));
+      }
+      return parts.join(" ");
+    }
+    case ItemType.Directory:
+      return `${escapeMarkdown(item.name)}/`;
+    default:
+      return escapeMarkdown(item.name);
+  }
+}
+
+function formatMarkdownLines(
+  item: ItemInfo,
+  depth: number,
+  lines: string[],
+): void {
+  lines.push(`${"  ".repeat(depth)}- ${formatMarkdownItem(item)}`);
+  for (const child of item.children) {
+    formatMarkdownLines(child, depth + 1, lines);
+  }
+}
+
+/**
+ * Renders the ItemInfo tree as a Markdown report: a summary line followed
+ * by a nested list with a status badge on every repository.
+ * @param root The root ItemInfo object.
+ * @returns The Markdown document.
+ */
+export function formatMarkdownReport(root: ItemInfo): string {
+  const summary = summarizeRepositories(root);
+  const warnings = formatHealthWarningCounts(summary.warnings);
+  const lines = [
+    `# Repositories in \`${root.path}\``,
+    "",
+    `**${summary.repositories}** repositories: ${summary.clean} clean, ` +
+    `${summary.dirty} dirty, ${summary.unpushed} unpushed` +
+    (summary.error > 0 ? `, ${summary.error} unknown/error` : "") +
+    (warnings ? `; ⚠ ${warnings}` : ""),
+    "",
+  ];
+  formatMarkdownLines(root, 0, lines);
+  return lines.join("\n");
+}
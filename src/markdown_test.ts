@@ -0,0 +1,61 @@
+import { assertEquals } from "@std/assert";
+import { formatMarkdownReport } from "./markdown.ts";
+import {
+  directoryItem,
+  fileItem,
+  repoItem,
+  repoStatus,
+} from "../test/item_fixtures.ts";
+
+Deno.test("formatMarkdownReport lists the tree under a summary line", () => {
+  const ignored = directoryItem("/work/dist", [fileItem("/work/dist/app.js")]);
+  ignored.ignored = true;
+  const root = directoryItem("/work", [
+    repoItem("/work/app", {
+      gitStatus: repoStatus({ hasWorkingChanges: true, unstaged: 2 }),
+    }),
+    ignored,
+    fileItem("/work/notes.txt"),
+  ]);
+
+  assertEquals(formatMarkdownReport(root).split("\n"), [
+    "# Repositories in `/work`",
+    "",
+    "**1** repositories: 0 clean, 1 dirty, 0 unpushed",
+    "",
+    "- work/",
+    "  - **app** 🔴 dirty `main ~2`",
+    "  - dist/ _(ignored)_",
+    "    - app.js",
+    "  - notes.txt",
+  ]);
+});
+
+Deno.test("formatMarkdownReport counts the items of a collapsed repository", () => {
+  const root = directoryItem("/work", [
+    repoItem("/work/one", { collapsedChildCount: 1 }),
+    repoItem("/work/many", { collapsedChildCount: 3, remotes: [] }),
+    repoItem("/work/empty", { collapsedChildCount: 0 }),
+  ]);
+
+  assertEquals(formatMarkdownReport(root).split("\n").slice(5), [
+    "  - **one** 🟢 clean `main` (1 item)",
+    "  - **many** 🟢 clean `main` (3 items) ⚠ **no remote**",
+    "  - **empty** 🟢 clean `main` (0 items)",
+  ]);
+});
+
+Deno.test("formatMarkdownReport escapes Markdown in names and errors", () => {
+  const root = directoryItem("/work", [
+    fileItem("/work/*draft*_[1].md"),
+    repoItem("/work/a|b", {
+      gitStatus: undefined,
+      error: "fatal: <bad> `HEAD`\nsecond line",
+    }),
+  ]);
+
+  assertEquals(formatMarkdownReport(root).split("\n").slice(5), [
+    "  - \\*draft\\*\\_\\[1\\].md",
+    "  - **a\\|b** ⚠️ unknown/error _fatal: \\<bad\\> \\`HEAD\\`_",
+  ]);
+});
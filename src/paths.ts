@@ -0,0 +1,39 @@
+import { relative } from "@std/path";
+import { getRepositoryState } from "./summary.ts";
+import { ItemInfo } from "./types.ts";
+
+export interface PathListOptions {
+  /** Print absolute paths instead of paths relative to the scanned root. */
+  absolute?: boolean;
+  /** End entries with a NUL byte instead of a newline, for `xargs -0`. */
+  nullSeparated?: boolean;
+  /** Append a tab and the repository state (clean, dirty, unpushed, bare). */
+  status?: boolean;
+}
+
+/**
+ * Lists repositories one per line for shell pipelines. The output never
+ * contains color codes.
+ * @param repositories The repositories to list, in output order.
+ * @param rootPath Relative paths are relative to this directory.
+ * @param options How to print the paths.
+ * @returns Every entry followed by its terminator, or an empty string.
+ */
+export function formatPathList(
+  repositories: ItemInfo[],
+  rootPath: string,
+  options: PathListOptions = {},
+): string {
+  const terminator = options.nullSeparated ? "\0" : "\n";
+  return repositories
+    .map((repo) => {
+      const path = options.absolute
+        ? repo.path
+        : relative(rootPath, repo.path) || ".";
+      const entry = options.status
+        ? `${path}\t${getRepositoryState(repo)}`
+        : path;
+      return `${entry}${terminator}`;
+    })
+    .join("");
+}
@@ -0,0 +1,48 @@
+import { assertEquals } from "@std/assert";
+import { formatPathList } from "./paths.ts";
+import { repoItem, repoStatus } from "../test/item_fixtures.ts";
+
+const repositories = [
+  repoItem("/work"),
+  repoItem("/work/my app", {
+    gitStatus: repoStatus({ hasWorkingChanges: true }),
+  }),
+  repoItem("/work/clients/web", {
+    gitStatus: repoStatus({ hasUnpushedChanges: true, ahead: 1 }),
+  }),
+  repoItem("/work/mirror.git", {
+    gitStatus: undefined,
+    repository: { kind: "bare", gitDir: "/work/mirror.git" },
+  }),
+];
+
+Deno.test("formatPathList prints one relative path per line", () => {
+  assertEquals(
+    formatPathList(repositories, "/work"),
+    ".\nmy app\nclients/web\nmirror.git\n",
+  );
+  assertEquals(formatPathList([], "/work"), "");
+});
+
+Deno.test("formatPathList prints absolute paths and NUL separators when asked to", () => {
+  assertEquals(
+    formatPathList(repositories.slice(1, 3), "/work", {
+      absolute: true,
+      nullSeparated: true,
+    }),
+    "/work/my app\0/work/clients/web\0",
+  );
+});
+
+Deno.test("formatPathList appends the state after a tab", () => {
+  assertEquals(
+    formatPathList(repositories, "/work", { status: true }).split("\n"),
+    [
+      ".\tclean",
+      "my app\tdirty",
+      "clients/web\tunpushed",
+      "mirror.git\tbare",
+      "",
+    ],
+  );
+});
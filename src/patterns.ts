@@ -0,0 +1,148 @@
+import { globToRegExp } from "@std/path";
+
+/** A gitignore-style pattern, matched against paths relative to a scan root. */
+export interface PathPattern {
+  /** The pattern as given. */
+  source: string;
+  /** Started with `!`: re-includes what earlier patterns matched. */
+  negated: boolean;
+  /** Ended with `/`: only matches directories. */
+  directoryOnly: boolean;
+  /** One expression per path segment; undefined stands for `**`. */
+  segments: (RegExp | undefined)[];
+}
+
+/**
+ * How a pattern relates to a path:
+ * - `match`: the pattern matches the path or one of the directories above it
+ * - `parent`: the pattern could match something below the path
+ * - `none`: neither
+ */
+export type PatternMatch = "match" | "parent" | "none";
+
+/** `self` and `ancestor` tell apart what `directoryOnly` applies to. */
+type SegmentMatch = "none" | "parent" | "self" | "ancestor";
+
+const SEGMENT_MATCH_RANK: readonly SegmentMatch[] = [
+  "none",
+  "parent",
+  "self",
+  "ancestor",
+];
+
+function bestMatch(a: SegmentMatch, b: SegmentMatch): SegmentMatch {
+  return SEGMENT_MATCH_RANK.indexOf(a) >= SEGMENT_MATCH_RANK.indexOf(b) ? a : b;
+}
+
+function matchSegments(
+  segments: (RegExp | undefined)[],
+  path: string[],
+): SegmentMatch {
+  if (segments.length === 0) {
+    return path.length === 0 ? "self" : "ancestor";
+  }
+  const [first, ...rest] = segments;
+  if (first === undefined) {
+    // A trailing `**` matches everything inside, but not the directory itself.
+    if (rest.length === 0) {
+      if (path.length === 0) {
+        return "parent";
+      }
+      return path.length === 1 ? "self" : "ancestor";
+    }
+    const zeroSegments = matchSegments(rest, path);
+    return path.length === 0
+      ? zeroSegments
+      : bestMatch(zeroSegments, matchSegments(segments, path.slice(1)));
+  }
+  if (path.length === 0) {
+    return "parent";
+  }
+  return first.test(path[0]) ? matchSegments(rest, path.slice(1)) : "none";
+}
+
+/**
+ * Compiles a pattern with the syntax of `.gitignore`: `*`, `?` and `[...]`
+ * match within a segment, `**` across segments, a leading `!` negates and a
+ * trailing `/` restricts the pattern to directories. A pattern without a
+ * slash matches a name at any depth, otherwise it is anchored at the root.
+ * @param source The pattern.
+ * @returns The compiled pattern.
+ */
+export function compilePathPattern(source: string): PathPattern {
+  let pattern = source.trim();
+  const negated = pattern.startsWith("!");
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+  const directoryOnly = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+
+  const anchored = pattern.includes("/");
+  const segments = pattern.split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment === "**" ? undefined : globToRegExp(segment, { extended: true })
+    );
+  if (!anchored) {
+    segments.unshift(undefined);
+  }
+  return { source, negated, directoryOnly, segments };
+}
+
+/**
+ * Compiles a list of patterns, leaving out empty ones.
+ * @param sources The patterns, in order of precedence.
+ * @returns The compiled patterns.
+ */
+export function compilePathPatterns(
+  sources: readonly string[],
+): PathPattern[] {
+  return sources
+    .filter((source) => source.trim().replace(/^!/, "") !== "")
+    .map(compilePathPattern);
+}
+
+/**
+ * Matches a single pattern, ignoring its negation.
+ * @param pattern The compiled pattern.
+ * @param relativePath The path relative to the scan root.
+ * @param isDirectory Whether the path is a directory.
+ * @returns How the pattern relates to the path.
+ */
+export function matchPathPattern(
+  pattern: PathPattern,
+  relativePath: string,
+  isDirectory: boolean,
+): PatternMatch {
+  const path = relativePath.split(/[\\/]/).filter(Boolean);
+  const result = matchSegments(pattern.segments, path);
+  if (result === "self") {
+    return pattern.directoryOnly && !isDirectory ? "none" : "match";
+  }
+  return result === "ancestor" ? "match" : result;
+}
+
+/**
+ * Applies patterns in order; as in `.gitignore`, the last one that matches
+ * decides. Matching a directory also matches everything inside it, so a
+ * negated pattern re-includes a whole subtree.
+ * @param patterns The compiled patterns.
+ * @param relativePath The path relative to the scan root.
+ * @param isDirectory Whether the path is a directory.
+ * @returns True if the path is matched, false if a negated pattern
+ * re-included it, undefined if no pattern applies.
+ */
+export function matchPathPatterns(
+  patterns: readonly PathPattern[],
+  relativePath: string,
+  isDirectory: boolean,
+): boolean | undefined {
+  let matched: boolean | undefined;
+  for (const pattern of patterns) {
+    if (matchPathPattern(pattern, relativePath, isDirectory) === "match") {
+      matched = !pattern.negated;
+    }
+  }
+  return matched;
+}
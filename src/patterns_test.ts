@@ -0,0 +1,47 @@
+import { assertEquals } from "@std/assert";
+import {
+  compilePathPattern,
+  compilePathPatterns,
+  matchPathPattern,
+  matchPathPatterns,
+} from "./patterns.ts";
+
+Deno.test("a pattern without a slash matches a name at any depth", () => {
+  const pattern = compilePathPattern("node_modules");
+  assertEquals(matchPathPattern(pattern, "node_modules", true), "match");
+  assertEquals(matchPathPattern(pattern, "web/node_modules", true), "match");
+  assertEquals(matchPathPattern(pattern, "web/node_modules/x", false), "match");
+  assertEquals(matchPathPattern(pattern, "web/src", true), "parent");
+});
+
+Deno.test("a pattern with a slash is anchored at the root", () => {
+  const pattern = compilePathPattern("work/*.txt");
+  assertEquals(matchPathPattern(pattern, "work/notes.txt", false), "match");
+  assertEquals(matchPathPattern(pattern, "old/work/notes.txt", false), "none");
+  assertEquals(matchPathPattern(pattern, "work", true), "parent");
+});
+
+Deno.test("a trailing ** matches the contents but not the directory", () => {
+  const pattern = compilePathPattern("**/vendor/**");
+  assertEquals(matchPathPattern(pattern, "app/vendor", true), "parent");
+  assertEquals(matchPathPattern(pattern, "app/vendor/lib", true), "match");
+});
+
+Deno.test("a trailing slash only matches directories", () => {
+  const pattern = compilePathPattern("build/");
+  assertEquals(matchPathPattern(pattern, "app/build", true), "match");
+  assertEquals(matchPathPattern(pattern, "app/build", false), "none");
+  assertEquals(matchPathPattern(pattern, "app/build/out.js", false), "match");
+});
+
+Deno.test("the last matching pattern wins and negation re-includes subtrees", () => {
+  const patterns = compilePathPatterns([
+    "**/vendor/**",
+    "!app/vendor/fork",
+    "",
+  ]);
+  assertEquals(matchPathPatterns(patterns, "app/vendor/lib", true), true);
+  assertEquals(matchPathPatterns(patterns, "app/vendor/fork", true), false);
+  assertEquals(matchPathPatterns(patterns, "app/vendor/fork/src", true), false);
+  assertEquals(matchPathPatterns(patterns, "app/src", true), undefined);
+});
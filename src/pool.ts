@@ -0,0 +1,51 @@
+/**
+ * Runs asynchronous tasks with at most `concurrency` of them in flight.
+ * Tasks are started in the order they were submitted.
+ */
+export class WorkerPool {
+  private _active = 0;
+  private readonly _queue: (() => void)[] = [];
+
+  constructor(private readonly _concurrency: number) {
+    if (!Number.isInteger(_concurrency) || _concurrency < 1) {
+      throw new RangeError(
+        `Concurrency must be a positive integer, got ${_concurrency}`,
+      );
+    }
+  }
+
+  /**
+   * Schedules a task and resolves with its result once it has run.
+   * Never call `run` from inside a task: a task that waits for another
+   * queued task can deadlock the pool.
+   * @param task The task to run.
+   * @returns The value returned by the task.
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this._active >= this._concurrency) {
+      // The task that finishes hands its slot over without freeing it, so a
+      // call to `run` in between cannot take it first.
+      await new Promise<void>((resolve) => this._queue.push(resolve));
+    } else {
+      this._active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this._queue.shift();
+      if (next) {
+        next();
+      } else {
+        this._active--;
+      }
+    }
+  }
+}
+
+/**
+ * Returns the number of logical CPUs, used as the default concurrency.
+ */
+export function defaultConcurrency(): number {
+  return navigator.hardwareConcurrency || 1;
+}
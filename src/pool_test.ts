@@ -0,0 +1,111 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { join } from "@std/path";
+import { DenoFileSystem } from "./file_system.ts";
+import { GitService } from "./git.ts";
+import { WorkerPool } from "./pool.ts";
+import { RepositoryTree } from "./repo_tree.ts";
+import {
+  createRepository,
+  delay,
+  silentLog,
+  SlowStatusRunner,
+  withTempDir,
+} from "../test/test_helpers.ts";
+
+/** Counts the tasks in flight and remembers the most seen at once. */
+class InFlight {
+  public active = 0;
+  public max = 0;
+
+  async track(ms: number): Promise<void> {
+    this.active++;
+    this.max = Math.max(this.max, this.active);
+    await delay(ms);
+    this.active--;
+  }
+}
+
+Deno.test("WorkerPool rejects a concurrency that is not a positive integer", () => {
+  for (const concurrency of [0, -1, 1.5, NaN]) {
+    assertThrows(() => new WorkerPool(concurrency), RangeError);
+  }
+});
+
+Deno.test("WorkerPool never runs more tasks than its concurrency", async () => {
+  const pool = new WorkerPool(3);
+  const inFlight = new InFlight();
+  const results = await Promise.all(
+    [5, 1, 4, 2, 3, 0, 2, 1].map((ms, index) =>
+      pool.run(async () => {
+        await inFlight.track(ms);
+        return index;
+      })
+    ),
+  );
+  assertEquals(inFlight.max, 3);
+  assertEquals(results, [0, 1, 2, 3, 4, 5, 6, 7]);
+});
+
+Deno.test("WorkerPool starts queued tasks in the order they were submitted", async () => {
+  const pool = new WorkerPool(2);
+  const started: number[] = [];
+  await Promise.all(
+    [3, 0, 2, 1, 0, 2].map((ms, index) =>
+      pool.run(async () => {
+        started.push(index);
+        await delay(ms);
+      })
+    ),
+  );
+  assertEquals(started, [0, 1, 2, 3, 4, 5]);
+});
+
+Deno.test("WorkerPool hands a freed slot to the next queued task", async () => {
+  // A call to `run` that lands a few microtasks after a task ends must queue
+  // behind the task that was already waiting for the slot.
+  for (let ticks = 0; ticks < 6; ticks++) {
+    const pool = new WorkerPool(1);
+    const inFlight = new InFlight();
+    let late: Promise<void> | undefined;
+    const first = pool.run(() => {
+      (async () => {
+        for (let tick = 0; tick < ticks; tick++) {
+          await null;
+        }
+        late = pool.run(() => inFlight.track(5));
+      })();
+      return Promise.resolve();
+    });
+    const queued = pool.run(() => inFlight.track(5));
+    await Promise.all([first, queued]);
+    await late;
+    assertEquals(inFlight.max, 1, `late call after ${ticks} microtasks`);
+  }
+});
+
+Deno.test("a concurrent scan keeps tree order when repositories finish out of order", async () => {
+  await withTempDir(async (dir) => {
+    for (const name of ["a", "b", "c", "d"]) {
+      await createRepository(join(dir, name));
+    }
+    await Deno.writeTextFile(join(dir, "b", "README.md"), "# edited\n");
+
+    const fileSystem = new DenoFileSystem();
+    const repoTree = new RepositoryTree(
+      silentLog,
+      fileSystem,
+      new GitService(
+        fileSystem,
+        new SlowStatusRunner({ a: 60, b: 40, c: 20 }),
+        silentLog,
+      ),
+    );
+    const root = await repoTree.scan({ path: dir, jobs: 4 });
+
+    assertEquals(root?.children.map((item) => item.name), ["a", "b", "c", "d"]);
+    assertEquals(
+      root?.children.map((item) => item.gitStatus?.unstaged),
+      [0, 1, 0, 0],
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { ItemInfo, ItemType } from "./types.ts";
+
+/**
+ * Removes every branch of the tree that has no (matching) repository below it.
+ * Repositories keep only the children that lead to nested repositories.
+ * @param item The ItemInfo object to prune.
+ * @param keep Decides which repositories are kept; all of them by default.
+ * @returns The pruned copy of the item, or undefined if nothing below it is kept.
+ */
+export function pruneToRepositories(
+  item: ItemInfo,
+  keep: (repo: ItemInfo) => boolean = () => true,
+): ItemInfo | undefined {
+  const isRepo = item.type === ItemType.RepoDirectory;
+  if (!isRepo && !item.containsRepo) {
+    return undefined;
+  }
+
+  const children = item.children
+    .map((child) => pruneToRepositories(child, keep))
+    .filter((child): child is ItemInfo => child !== undefined);
+
+  if ((isRepo && keep(item)) || children.length > 0) {
+    return { ...item, children };
+  }
+  return undefined;
+}
+
+/**
+ * Replaces the file listing of every repository with a count of the hidden entries.
+ * Children that lead to nested repositories are kept so they stay visible.
+ * Bare repositories get no count: their contents are never listed.
+ * @param item The ItemInfo object to collapse.
+ * @returns The collapsed copy of the item.
+ */
+export function collapseRepositories(item: ItemInfo): ItemInfo {
+  if (
+    item.type !== ItemType.RepoDirectory || item.repository?.kind === "bare"
+  ) {
+    return { ...item, children: item.children.map(collapseRepositories) };
+  }
+
+  const leadsToRepo = (child: ItemInfo) =>
+    child.type === ItemType.RepoDirectory || child.containsRepo;
+  const visible = item.children.filter(leadsToRepo);
+
+  return {
+    ...item,
+    children: visible.map(collapseRepositories),
+    collapsedChildCount: item.children.length - visible.length,
+  };
+}
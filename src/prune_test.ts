@@ -0,0 +1,108 @@
+import { assertEquals } from "@std/assert";
+import { collapseRepositories, pruneToRepositories } from "./prune.ts";
+import { ItemInfo } from "./types.ts";
+import { directoryItem, fileItem, repoItem } from "../test/item_fixtures.ts";
+
+/** Formats the tree as one indented line per item, to compare shapes. */
+function outline(item: ItemInfo, depth = 0): string[] {
+  const count = item.collapsedChildCount !== undefined
+    ? ` (${item.collapsedChildCount} hidden)`
+    : "";
+  return [
+    `${"  ".repeat(depth)}${item.name}${count}`,
+    ...item.children.flatMap((child) => outline(child, depth + 1)),
+  ];
+}
+
+// work
+// ├── notes.txt
+// ├── empty
+// │   └── todo.txt
+// ├── app (repo)
+// │   ├── README.md
+// │   ├── src
+// │   │   └── main.ts
+// │   └── vendor
+// │       └── lib (repo)
+// │           └── mod.ts
+// └── clients
+//     └── web (repo)
+//         └── index.html
+const tree = directoryItem("/work", [
+  fileItem("/work/notes.txt"),
+  directoryItem("/work/empty", [fileItem("/work/empty/todo.txt")]),
+  repoItem("/work/app", {
+    children: [
+      fileItem("/work/app/README.md"),
+      directoryItem("/work/app/src", [fileItem("/work/app/src/main.ts")]),
+      directoryItem("/work/app/vendor", [
+        repoItem("/work/app/vendor/lib", {
+          children: [fileItem("/work/app/vendor/lib/mod.ts")],
+        }),
+      ]),
+    ],
+  }),
+  directoryItem("/work/clients", [
+    repoItem("/work/clients/web", {
+      children: [fileItem("/work/clients/web/index.html")],
+    }),
+  ]),
+]);
+
+Deno.test("pruneToRepositories keeps only the paths that lead to repositories", () => {
+  assertEquals(outline(pruneToRepositories(tree)!), [
+    "work",
+    "  app",
+    "    vendor",
+    "      lib",
+    "  clients",
+    "    web",
+  ]);
+});
+
+Deno.test("pruneToRepositories keeps repositories that lead to a kept one", () => {
+  const onlyLib = pruneToRepositories(tree, (repo) => repo.name === "lib");
+  assertEquals(outline(onlyLib!), ["work", "  app", "    vendor", "      lib"]);
+  assertEquals(pruneToRepositories(tree, () => false), undefined);
+  assertEquals(pruneToRepositories(fileItem("/work/notes.txt")), undefined);
+});
+
+Deno.test("collapseRepositories counts the entries it hides", () => {
+  assertEquals(outline(collapseRepositories(tree)), [
+    "work",
+    "  notes.txt",
+    "  empty",
+    "    todo.txt",
+    "  app (2 hidden)",
+    "    vendor",
+    "      lib (1 hidden)",
+    "  clients",
+    "    web (1 hidden)",
+  ]);
+});
+
+Deno.test("pruning a collapsed tree keeps the hidden counts", () => {
+  assertEquals(outline(pruneToRepositories(collapseRepositories(tree))!), [
+    "work",
+    "  app (2 hidden)",
+    "    vendor",
+    "      lib (1 hidden)",
+    "  clients",
+    "    web (1 hidden)",
+  ]);
+  // Neither function changes the tree it is given.
+  assertEquals(tree.children.length, 4);
+  assertEquals(tree.children[2].collapsedChildCount, undefined);
+});
+
+Deno.test("collapseRepositories gives a bare repository no count", () => {
+  const bare = repoItem("/work/bare.git", {
+    gitStatus: undefined,
+    repository: { kind: "bare", gitDir: "/work/bare.git" },
+  });
+  const empty = repoItem("/work/empty");
+  assertEquals(
+    outline(collapseRepositories(directoryItem("/work", [bare, empty]))),
+    ["work", "  bare.git", "  empty (0 hidden)"],
+  );
+});
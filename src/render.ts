@@ -0,0 +1,107 @@
+import { relative } from "@std/path";
+import { hasActiveFilter, matchesRepositoryFilter } from "./filter.ts";
+import { formatItemInfoTree, formatLegend } from "./format.ts";
+import { formatHtmlReport } from "./html.ts";
+import { formatJsonDocument, formatNdjsonRecord } from "./json.ts";
+import { formatMarkdownReport } from "./markdown.ts";
+import { formatPathList } from "./paths.ts";
+import { collapseRepositories, pruneToRepositories } from "./prune.ts";
+import type { RepositoryTreeOptions } from "./repo_tree.ts";
+import { groupRepositoriesByStatus, sortTree } from "./sort.ts";
+import { ItemInfo } from "./types.ts";
+import { collectRepositories } from "./walk.ts";
+
+/**
+ * Applies the collapse, filter, pruning, grouping and sorting options to a
+ * scanned tree.
+ * @param scanned The root ItemInfo returned by a scan.
+ * @param options The display options.
+ * @returns The tree as it is displayed; the scanned tree is left as is.
+ */
+export function arrangeTree(
+  scanned: ItemInfo,
+  options: RepositoryTreeOptions = {},
+): ItemInfo {
+  const filter = options.filter ?? {};
+  const sort = options.sort ?? "name";
+  const dirsFirst = options.dirsFirst ?? false;
+  let root = scanned;
+
+  // Collapse first so the hidden counts still reflect the full file listing.
+  if (options.collapseRepos) {
+    root = collapseRepositories(root);
+  }
+  if (hasActiveFilter(filter)) {
+    root = pruneToRepositories(
+      root,
+      (repo) => matchesRepositoryFilter(repo, filter),
+    ) ?? { ...root, children: [] };
+  } else if (options.reposOnly) {
+    root = pruneToRepositories(root) ?? { ...root, children: [] };
+  }
+
+  if (options.groupBy !== "status") {
+    return sortTree(root, sort, dirsFirst);
+  }
+  const grouped = groupRepositoriesByStatus(
+    root,
+    collectRepositories(root).filter((repo) =>
+      matchesRepositoryFilter(repo, filter)
+    ),
+    (repo) => relative(scanned.path, repo.path) || ".",
+  );
+  // The headings keep their order; only the repositories are sorted.
+  return {
+    ...grouped,
+    children: grouped.children.map((heading) =>
+      sortTree(heading, sort, dirsFirst)
+    ),
+  };
+}
+
+/**
+ * Formats a scanned tree the way the `show` command prints it. Paths are
+ * shown relative to the root of the tree.
+ * @param scanned The root ItemInfo returned by a scan.
+ * @param options The output format and display options.
+ * @returns The output; `ndjson` and `paths` end every record with a
+ * terminator, the other formats have no trailing newline.
+ */
+export function formatTree(
+  scanned: ItemInfo,
+  options: RepositoryTreeOptions = {},
+): string {
+  const filter = options.filter ?? {};
+
+  if (options.format === "ndjson") {
+    return collectRepositories(scanned)
+      .filter((repo) => matchesRepositoryFilter(repo, filter))
+      .map((repo) => `${formatNdjsonRecord(repo)}\n`)
+      .join("");
+  }
+
+  const root = arrangeTree(scanned, options);
+  switch (options.format) {
+    case "paths":
+      // Repositories kept only because a nested one matched are left out.
+      return formatPathList(
+        collectRepositories(root).filter((repo) =>
+          matchesRepositoryFilter(repo, filter)
+        ),
+        scanned.path,
+        options.paths,
+      );
+    case "json":
+      return formatJsonDocument(root);
+    case "markdown":
+      return formatMarkdownReport(root);
+    case "html":
+      return formatHtmlReport(root);
+  }
+
+  const display = options.display ?? {};
+  const tree = formatItemInfoTree(root, display);
+  return display.legend && display.mode !== "plain"
+    ? `${tree}\n\n${formatLegend(display)}`
+    : tree;
+}
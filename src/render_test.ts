@@ -0,0 +1,154 @@
+import { assertEquals } from "@std/assert";
+import { formatTree } from "./render.ts";
+import { ItemInfo } from "./types.ts";
+import {
+  directoryItem,
+  fileItem,
+  repoItem,
+  repoStatus,
+} from "../test/item_fixtures.ts";
+
+const root = directoryItem("/work", [
+  directoryItem("/work/apps", [
+    repoItem("/work/apps/web", {
+      gitStatus: repoStatus({ hasWorkingChanges: true }),
+    }),
+  ]),
+  repoItem("/work/api"),
+]);
+
+Deno.test("formatTree returns the output instead of printing it", () => {
+  assertEquals(
+    formatTree(root, { format: "tree", display: { mode: "plain" } }),
+    ["work", "    ├── api", "    └── apps", "        └── web"].join("\n"),
+  );
+  assertEquals(
+    formatTree(root, { format: "paths", filter: { dirty: true } }),
+    "apps/web\n",
+  );
+});
+
+Deno.test("formatTree ends every NDJSON record with a newline", () => {
+  const output = formatTree(root, { format: "ndjson" });
+  assertEquals(output.split("\n").length, 3);
+  assertEquals(output.endsWith("\n"), true);
+  assertEquals(
+    formatTree(root, { format: "ndjson", filter: { dirty: true } })
+      .startsWith('{"schemaVersion":1,"name":"web"'),
+    true,
+  );
+});
+
+Deno.test("formatTree lists remotes and missing upstreams when asked to", () => {
+  const tracked: ItemInfo = {
+    ...repoItem("/work/api"),
+    gitStatus: repoStatus({ upstream: "origin/main" }),
+    remotes: [{ name: "origin", url: "git@example.com:acme/api.git" }],
+  };
+  const untracked: ItemInfo = {
+    ...repoItem("/work/web"),
+    remotes: [
+      { name: "origin", url: "git@example.com:acme/web.git" },
+      { name: "backup", url: "/srv/backup/web.git" },
+    ],
+  };
+  const local = repoItem("/work/notes", { remotes: [] });
+  const tree: ItemInfo = {
+    ...root,
+    children: [tracked, untracked, local],
+  };
+
+  assertEquals(
+    formatTree(tree, { format: "tree", display: { remotes: true } }),
+    [
+      "work",
+      "    ├── api [main] ⇄ origin git@example.com:acme/api.git",
+      "    ├── notes [main] ⚠ no remote",
+      "    └── web [main] ⇄ origin git@example.com:acme/web.git, " +
+      "backup /srv/backup/web.git ⚠ no upstream",
+    ].join("\n"),
+  );
+  assertEquals(
+    formatTree(tree, { format: "tree" }).split("\n")[3],
+    "    └── web [main]",
+  );
+});
+
+// work
+// ├── app (repo)
+// │   ├── README.md
+// │   └── vendor
+// │       └── lib (repo, dirty)
+// ├── mirror.git (bare repo)
+// └── notes.txt
+const nested = directoryItem("/work", [
+  repoItem("/work/app", {
+    children: [
+      fileItem("/work/app/README.md"),
+      directoryItem("/work/app/vendor", [
+        repoItem("/work/app/vendor/lib", {
+          gitStatus: repoStatus({ hasWorkingChanges: true }),
+        }),
+      ]),
+    ],
+  }),
+  repoItem("/work/mirror.git", {
+    gitStatus: undefined,
+    repository: { kind: "bare", gitDir: "/work/mirror.git" },
+  }),
+  fileItem("/work/notes.txt"),
+]);
+
+Deno.test("formatTree lists the same paths with collapsed or pruned repositories", () => {
+  const all = "app\napp/vendor/lib\nmirror.git\n";
+  assertEquals(formatTree(nested, { format: "paths" }), all);
+  assertEquals(
+    formatTree(nested, { format: "paths", collapseRepos: true }),
+    all,
+  );
+  assertEquals(formatTree(nested, { format: "paths", reposOnly: true }), all);
+  // A repository kept only to lead to a matching one is not listed.
+  assertEquals(
+    formatTree(nested, {
+      format: "paths",
+      filter: { dirty: true },
+      paths: { status: true },
+    }),
+    "app/vendor/lib\tdirty\n",
+  );
+  assertEquals(
+    formatTree(nested, { format: "paths", filter: { branch: "none" } }),
+    "",
+  );
+});
+
+Deno.test("formatTree collapses and prunes repositories together", () => {
+  const tree = { format: "tree" } as const;
+  assertEquals(
+    formatTree(nested, { ...tree, collapseRepos: true }).split("\n"),
+    [
+      "work",
+      "    ├── app (1 item) [main]",
+      "    │   └── vendor",
+      "    │       └── lib (0 items) [main]",
+      "    ├── mirror.git (bare)",
+      "    └── notes.txt",
+    ],
+  );
+  assertEquals(
+    formatTree(nested, { ...tree, collapseRepos: true, reposOnly: true })
+      .split("\n"),
+    [
+      "work",
+      "    ├── app (1 item) [main]",
+      "    │   └── vendor",
+      "    │       └── lib (0 items) [main]",
+      "    └── mirror.git (bare)",
+    ],
+  );
+  // Without a matching repository only the root is left.
+  assertEquals(
+    formatTree(nested, { ...tree, reposOnly: true, filter: { behind: true } }),
+    "work",
+  );
+});
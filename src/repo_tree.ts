@@ -1,97 +1,733 @@
 import { type WalkEntry } from "https://deno.land/std@0.224.0/fs/walk.ts";
-import { join, resolve } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  join,
+  relative,
+  resolve,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { CachedDirectory, CachedEntry, ScanCache } from "./cache.ts";
+import { DEFAULT_CONFIG, findRepoOverride, RepoOverride } from "./config.ts";
+import {
+  diagnoseStatus,
+  formatSize,
+  HealthWarning,
+  LARGE_FILE_BYTES,
+} from "./doctor.ts";
 import { FileSystem } from "./file_system.ts";
-import { displayItemInfoTree } from "./format.ts";
-import { GitService } from "./git.ts";
-import { ItemInfo, ItemType } from "./types.ts";
+import { matchesRepositoryFilter, RepositoryFilter } from "./filter.ts";
+import { TreeFormatOptions } from "./format.ts";
+import {
+  GitService,
+  GitStatus,
+  LastCommit,
+  RepositoryActivity,
+  RepositoryInfo,
+} from "./git.ts";
+import { formatNdjsonRecord } from "./json.ts";
+import { PathListOptions } from "./paths.ts";
+import {
+  compilePathPatterns,
+  matchPathPattern,
+  matchPathPatterns,
+  PathPattern,
+} from "./patterns.ts";
+import { RemoteInfo } from "./remotes.ts";
+import { formatTree } from "./render.ts";
+import { commonParentPath, distinctRoots, isWithin, rootOf } from "./roots.ts";
+import { compareNames, GroupBy, SortKey } from "./sort.ts";
+import { formatRunSummary, summarizeRepositories } from "./summary.ts";
+import { ItemInfo, ItemType, OutputFormat } from "./types.ts";
 import { Logger } from "./logger.ts";
+import { defaultConcurrency, WorkerPool } from "./pool.ts";
 
 export interface RepositoryTreeOptions {
   path?: string;
-  skipDirectories?: Set<string>;
+  /**
+   * Directories to scan instead of `path` alone. They are shown under `path`,
+   * which defaults to their closest common parent.
+   */
+  roots?: string[];
+  /** Patterns of directories that are listed but never descended into. */
+  skip?: string[];
+  /**
+   * Gitignore-style patterns of paths to leave out, relative to the root they
+   * are found under. A negated pattern re-includes a path as long as no
+   * directory above it was left out: exclude `vendor/**` rather than `vendor`.
+   */
+  exclude?: string[];
+  /** When given, only paths matching these patterns are listed. */
+  include?: string[];
   depth?: number;
   includeHidden?: boolean;
+  format?: OutputFormat;
+  reposOnly?: boolean;
+  collapseRepos?: boolean;
+  /** Maximum number of directory reads and git calls running at once. */
+  jobs?: number;
+  /** Only report repositories matching these status predicates. */
+  filter?: RepositoryFilter;
+  /** Per-repository rules from the config file, keyed by path glob. */
+  repoOverrides?: Record<string, RepoOverride>;
+  /** Styling of the `tree` format. */
+  display?: TreeFormatOptions;
+  /** Descend into symlinked directories, with cycle detection. */
+  followSymlinks?: boolean;
+  /** Hide paths ignored by the repository they belong to. */
+  respectGitignore?: boolean;
+  /** Mark paths ignored by their repository instead of hiding them. */
+  showIgnored?: boolean;
+  /** Order of the entries in every directory. */
+  sort?: SortKey;
+  /** List directories before files, whatever the sort order. */
+  dirsFirst?: boolean;
+  /** Show repositories under a heading per state instead of the hierarchy. */
+  groupBy?: GroupBy;
+  /** Options of the `paths` format. */
+  paths?: PathListOptions;
+  /** Print counts and the elapsed time after the `tree` format. */
+  summary?: boolean;
+  /**
+   * Run health checks on every repository: operations in progress,
+   * conflicts, detached HEAD, shallow clones, a missing default branch and
+   * large untracked files.
+   */
+  doctor?: boolean;
+}
+
+/**
+ * Called for every repository as soon as its git status is known,
+ * before its children have been scanned.
+ */
+export type RepositoryListener = (item: ItemInfo) => void;
+
+interface ScanContext {
+  options: Required<RepositoryTreeOptions>;
+  /** The root the entries being scanned were found under. */
+  rootPath: string;
+  rules: PathRules;
+  pool: WorkerPool;
+  onRepository?: RepositoryListener;
+  /** Device/inode identity of every repository, when following symlinks. */
+  fileIds: Map<ItemInfo, string>;
+  /** First path each repository identity was discovered at. */
+  discovered: Map<string, string>;
+  /** Absolute paths ignored by the repository they belong to. */
+  ignoredPaths: Set<string>;
+}
+
+interface PathRules {
+  skip: PathPattern[];
+  exclude: PathPattern[];
+  include: PathPattern[];
+}
+
+/**
+ * What the scan does with an entry: list and descend into it, list it
+ * without descending, leave it out, or only descend to look for included
+ * paths, dropping it if none are found.
+ */
+type EntrySelection = "scan" | "skip" | "exclude" | "container";
+
+function selectEntry(
+  rules: PathRules,
+  relativePath: string,
+  isDirectory: boolean,
+): EntrySelection {
+  if (matchPathPatterns(rules.exclude, relativePath, isDirectory)) {
+    return "exclude";
+  }
+  const skipped = matchPathPatterns(rules.skip, relativePath, isDirectory) ===
+    true;
+  if (
+    rules.include.length > 0 &&
+    !matchPathPatterns(rules.include, relativePath, isDirectory)
+  ) {
+    const mayContainMatch = isDirectory && !skipped &&
+      rules.include.some((pattern) =>
+        !pattern.negated &&
+        matchPathPattern(pattern, relativePath, isDirectory) === "parent"
+      );
+    return mayContainMatch ? "container" : "exclude";
+  }
+  return skipped ? "skip" : "scan";
+}
+
+/** Identity of a file that is the same for every path leading to it. */
+function fileIdOf(stat: Deno.FileInfo): string {
+  return `${stat.dev}:${stat.ino}`;
+}
+
+/**
+ * Marks every repository that was reached through more than one path as an
+ * alias of a single canonical path, sharing its status, and drops the
+ * duplicate subtrees. The canonical path is the first one without a symlink
+ * in it, in tree order.
+ */
+function markRepositoryAliases(
+  root: ItemInfo,
+  fileIds: Map<ItemInfo, string>,
+): void {
+  const paths = new Map<string, { item: ItemInfo; viaSymlink: boolean }[]>();
+  const collect = (item: ItemInfo, viaSymlink: boolean) => {
+    const linked = viaSymlink || item.symlinkTarget !== undefined;
+    const fileId = fileIds.get(item);
+    if (item.type === ItemType.RepoDirectory && fileId !== undefined) {
+      paths.set(fileId, [
+        ...paths.get(fileId) ?? [],
+        { item, viaSymlink: linked },
+      ]);
+    }
+    item.children.forEach((child) => collect(child, linked));
+  };
+  collect(root, false);
+
+  for (const found of paths.values()) {
+    const canonical = (found.find(({ viaSymlink }) => !viaSymlink) ??
+      found[0]).item;
+    for (const { item } of found) {
+      if (item !== canonical) {
+        item.aliasOf = canonical.path;
+        item.children = [];
+        item.gitStatus = canonical.gitStatus;
+      }
+    }
+  }
+}
+
+/** Writes text to stdout as is, without the newline `console.log` adds. */
+function writeStdout(text: string): void {
+  const bytes = new TextEncoder().encode(text);
+  let written = 0;
+  while (written < bytes.length) {
+    written += Deno.stdout.writeSync(bytes.subarray(written));
+  }
+}
+
+/** Recomputes what a directory leads to from its children. */
+function summarizeChildren(item: ItemInfo): void {
+  item.containsRepo = item.children.some((child) =>
+    child.type === ItemType.RepoDirectory || child.containsRepo
+  );
+
+  // A plain directory only "leads to repos" if every branch below it does.
+  if (item.type === ItemType.Directory) {
+    item.allPathsLeadToRepo = item.children.length > 0 &&
+      item.children.every((child) => child.allPathsLeadToRepo);
+  }
+}
+
+/** Marks items as ignored, stopping at nested repositories. */
+function markIgnored(items: ItemInfo[]): void {
+  for (const item of items) {
+    if (item.type !== ItemType.RepoDirectory) {
+      item.ignored = true;
+      markIgnored(item.children);
+    }
+  }
 }
 
 export class RepositoryTree {
   constructor(
     private readonly _log: Logger,
     private readonly _fileSystem: FileSystem,
-    private readonly _git: GitService
+    private readonly _git: GitService,
+    private readonly _cache?: ScanCache,
   ) {
   }
 
+  private async cacheRecord(
+    path: string,
+    pool: WorkerPool,
+  ): Promise<CachedDirectory | undefined> {
+    const cache = this._cache;
+    if (!cache) {
+      return undefined;
+    }
+    try {
+      const stat = await pool.run(() => this._fileSystem.stat(path));
+      return cache.directory(path, stat.mtime?.getTime() ?? null);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async mtimeOf(path: string): Promise<number | null> {
+    try {
+      const stat = await this._fileSystem.stat(path);
+      return stat.mtime?.getTime() ?? null;
+    } catch {
+      return null;
+    }
+  }
+
   private async getItemType(
     path: string,
     isDirectory: boolean,
-  ): Promise<ItemType> {
+    pool: WorkerPool,
+    record?: CachedDirectory,
+  ): Promise<{ type: ItemType; repository?: RepositoryInfo }> {
     if (isDirectory) {
-      const isGitRepo = await this._git.testGitRepository(path);
-      if (isGitRepo) {
-        return ItemType.RepoDirectory;
+      const repository = record && record.repository !== undefined
+        ? record.repository ?? undefined
+        : await pool.run(() => this._git.detectRepository(path));
+      if (record) {
+        record.repository = repository ?? null;
+      }
+      if (repository) {
+        return { type: ItemType.RepoDirectory, repository };
+      }
+      return { type: ItemType.Directory };
+    }
+    return { type: ItemType.File };
+  }
+
+  private async getRepositoryStatus(
+    path: string,
+    repository: RepositoryInfo,
+    ignoreUntracked: boolean,
+    pool: WorkerPool,
+    record?: CachedDirectory,
+  ): Promise<GitStatus> {
+    const readMtimes = () =>
+      pool.run(() =>
+        Promise.all([
+          this.mtimeOf(join(repository.gitDir, "index")),
+          this.mtimeOf(join(repository.gitDir, "HEAD")),
+        ])
+      );
+
+    const cached = record?.status;
+    if (cached && cached.ignoreUntracked === ignoreUntracked) {
+      const [indexMtime, headMtime] = await readMtimes();
+      if (
+        cached.indexMtime === indexMtime && cached.headMtime === headMtime
+      ) {
+        return cached.gitStatus;
       }
-      return ItemType.Directory;
     }
-    return ItemType.File;
+
+    const gitStatus = await pool.run(() =>
+      this._git.getGitStatus(path, { ignoreUntracked })
+    );
+
+    // Read the mtimes after `git status`, which may itself refresh the index.
+    if (record) {
+      const [indexMtime, headMtime] = await readMtimes();
+      record.status = { indexMtime, headMtime, ignoreUntracked, gitStatus };
+    }
+    return gitStatus;
+  }
+
+  private async getRepositoryActivity(
+    path: string,
+    repository: RepositoryInfo,
+    pool: WorkerPool,
+    record?: CachedDirectory,
+  ): Promise<RepositoryActivity> {
+    // Every commit, checkout or reset appends to the reflog of HEAD.
+    const [reflogMtime, headMtime, fetchMtime] = await pool.run(() =>
+      Promise.all([
+        this.mtimeOf(join(repository.gitDir, "logs", "HEAD")),
+        this.mtimeOf(join(repository.gitDir, "HEAD")),
+        this.mtimeOf(join(repository.gitDir, "FETCH_HEAD")),
+      ])
+    );
+    const lastFetch = fetchMtime !== null
+      ? new Date(fetchMtime).toISOString()
+      : undefined;
+
+    const cached = record?.lastCommit;
+    if (
+      cached && cached.reflogMtime === reflogMtime &&
+      cached.headMtime === headMtime
+    ) {
+      return { lastCommit: cached.lastCommit ?? undefined, lastFetch };
+    }
+
+    let lastCommit: LastCommit | undefined;
+    try {
+      lastCommit = await pool.run(() => this._git.getLastCommit(path));
+    } catch (error) {
+      this._log.warn(`Could not read the last commit of ${path}: ${error}`);
+      return { lastFetch };
+    }
+    if (record) {
+      record.lastCommit = {
+        reflogMtime,
+        headMtime,
+        lastCommit: lastCommit ?? null,
+      };
+    }
+    return { lastCommit, lastFetch };
+  }
+
+  private async getRepositoryRemotes(
+    path: string,
+    repository: RepositoryInfo,
+    pool: WorkerPool,
+    record?: CachedDirectory,
+  ): Promise<RemoteInfo[] | undefined> {
+    // Linked worktrees share the configuration of their main repository.
+    const configPath = repository.kind === "worktree"
+      ? join(repository.gitDir, "..", "..", "config")
+      : join(repository.gitDir, "config");
+    const configMtime = await pool.run(() => this.mtimeOf(configPath));
+    if (record?.remotes && record.remotes.configMtime === configMtime) {
+      return record.remotes.remotes;
+    }
+
+    try {
+      const remotes = await pool.run(() => this._git.getRemotes(path));
+      if (record) {
+        record.remotes = { configMtime, remotes };
+      }
+      return remotes;
+    } catch (error) {
+      this._log.warn(`Could not read remotes of ${path}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads status, activity and remotes of a repository into its item.
+   * A failing `git status` is recorded in `error` rather than thrown, so one
+   * broken repository does not abort the scan.
+   */
+  private async queryRepository(
+    item: ItemInfo,
+    repository: RepositoryInfo,
+    ignoreUntracked: boolean,
+    doctor: boolean,
+    pool: WorkerPool,
+    record?: CachedDirectory,
+  ): Promise<void> {
+    try {
+      item.gitStatus = await this.getRepositoryStatus(
+        item.path,
+        repository,
+        ignoreUntracked,
+        pool,
+        record,
+      );
+      item.error = undefined;
+    } catch (error) {
+      const message = Error.isError(error) ? error.message : String(error);
+      this._log.error(`Error getting git status for ${item.path}: ${message}`);
+      item.gitStatus = undefined;
+      item.error = message;
+    }
+    item.activity = await this.getRepositoryActivity(
+      item.path,
+      repository,
+      pool,
+      record,
+    );
+    item.remotes = await this.getRepositoryRemotes(
+      item.path,
+      repository,
+      pool,
+      record,
+    );
+    item.warnings = doctor
+      ? await this.diagnoseRepository(item, repository, ignoreUntracked, pool)
+      : undefined;
+  }
+
+  /**
+   * Runs the health checks on a repository. Checks that fail are logged and
+   * left out rather than reported as problems; nothing is cached, since
+   * in-progress operations come and go without touching the index.
+   */
+  private async diagnoseRepository(
+    item: ItemInfo,
+    repository: RepositoryInfo,
+    ignoreUntracked: boolean,
+    pool: WorkerPool,
+  ): Promise<HealthWarning[]> {
+    const warn = (check: string) => (error: unknown) => {
+      this._log.warn(`Could not check ${check} of ${item.path}: ${error}`);
+      return undefined;
+    };
+    const [operations, shallow, defaultBranch, largeFiles] = await Promise
+      .all([
+        pool.run(() => this._git.getInProgressOperations(repository.gitDir))
+          .catch(warn("operations in progress")),
+        pool.run(() => this._git.isShallowRepository(item.path))
+          .catch(warn("history depth")),
+        // null when there is none, undefined when the check failed.
+        pool.run(() => this._git.getDefaultBranch(item.path))
+          .then((branch) => branch ?? null)
+          .catch(warn("default branch")),
+        ignoreUntracked
+          ? []
+          : pool.run(() =>
+            this._git.findLargeUntrackedFiles(item.path, LARGE_FILE_BYTES)
+          ).catch(warn("untracked files")),
+      ]);
+
+    const warnings: HealthWarning[] = (operations ?? []).map((kind) => ({
+      kind,
+    }));
+    if (item.gitStatus) {
+      warnings.push(...diagnoseStatus(item.gitStatus, operations ?? []));
+    }
+    if (shallow) {
+      warnings.push({ kind: "shallow" });
+    }
+    if (defaultBranch === null) {
+      warnings.push({ kind: "no-default-branch" });
+    }
+    if (largeFiles && largeFiles.length > 0) {
+      warnings.push({
+        kind: "large-files",
+        detail: largeFiles
+          .map((file) => `${file.path} ${formatSize(file.size)}`)
+          .join(", "),
+      });
+    }
+    return warnings;
+  }
+
+  private async listDirectory(path: string): Promise<CachedEntry[]> {
+    const entries: CachedEntry[] = [];
+    for await (const childEntry of this._fileSystem.readDir(path)) {
+      entries.push({
+        name: childEntry.name,
+        isDirectory: childEntry.isDirectory,
+        isFile: childEntry.isFile,
+        isSymlink: childEntry.isSymlink,
+      });
+    }
+    return entries;
+  }
+
+  private async readChildEntries(
+    path: string,
+    context: ScanContext,
+    record?: CachedDirectory,
+  ): Promise<WalkEntry[]> {
+    const entries = record?.entries ??
+      await context.pool.run(() => this.listDirectory(path));
+    if (record) {
+      record.entries = entries;
+    }
+
+    // readDir order differs between filesystems; sort so that scans, and
+    // everything derived from them, are reproducible.
+    return entries
+      .filter((childEntry) =>
+        context.options.includeHidden || !childEntry.name.startsWith(".")
+      )
+      .sort((a, b) => compareNames(a.name, b.name))
+      .map((childEntry) => ({
+        path: join(path, childEntry.name),
+        ...childEntry,
+      }));
+  }
+
+  /**
+   * Reads where a symlink points and, when following symlinks, what it
+   * resolves to. Broken links are reported as files.
+   */
+  private async inspectEntry(
+    entry: WalkEntry,
+    context: ScanContext,
+  ): Promise<
+    { isDirectory: boolean; symlinkTarget?: string; fileId?: string }
+  > {
+    const { options, pool } = context;
+    let symlinkTarget: string | undefined;
+    if (entry.isSymlink) {
+      symlinkTarget = await pool.run(() =>
+        this._fileSystem.readLink(entry.path)
+      ).catch(() => undefined);
+    }
+    if (!options.followSymlinks || !(entry.isDirectory || entry.isSymlink)) {
+      return { isDirectory: entry.isDirectory, symlinkTarget };
+    }
+
+    try {
+      const stat = await pool.run(() => this._fileSystem.stat(entry.path));
+      return {
+        isDirectory: stat.isDirectory,
+        symlinkTarget,
+        fileId: fileIdOf(stat),
+      };
+    } catch {
+      return { isDirectory: false, symlinkTarget };
+    }
   }
 
   private async buildItemInfoTree(
     entry: WalkEntry,
     currentDepth: number,
-    options: Required<RepositoryTreeOptions>,
-  ): Promise<ItemInfo> {
+    context: ScanContext,
+    ancestors: ReadonlyMap<string, string> = new Map(),
+  ): Promise<ItemInfo | undefined> {
+    const { options, pool } = context;
+    const { isDirectory: entryIsDirectory, symlinkTarget, fileId } = await this
+      .inspectEntry(entry, context);
+
+    // Following a symlink back into one of our own ancestors would recurse forever.
+    const cycleOf = fileId !== undefined ? ancestors.get(fileId) : undefined;
+    if (cycleOf !== undefined) {
+      return {
+        name: entry.name,
+        path: entry.path,
+        type: ItemType.Directory,
+        children: [],
+        allPathsLeadToRepo: false,
+        containsRepo: false,
+        symlinkTarget,
+        aliasOf: cycleOf,
+      };
+    }
+
+    // Roots are always scanned; patterns apply to what is found below them.
+    const selection = currentDepth === 0 ? "scan" : selectEntry(
+      context.rules,
+      relative(context.rootPath, entry.path),
+      entryIsDirectory,
+    );
+    if (selection === "exclude") {
+      return undefined;
+    }
+    const isContainer = selection === "container";
+
+    const record = entryIsDirectory
+      ? await this.cacheRecord(entry.path, pool)
+      : undefined;
+    const { type, repository } = await this.getItemType(
+      entry.path,
+      entryIsDirectory,
+      pool,
+      record,
+    );
     const itemInfo: ItemInfo = {
       name: entry.name,
-      type: await this.getItemType(entry.path, entry.isDirectory),
+      path: entry.path,
+      type,
       children: [],
       allPathsLeadToRepo: false,
       containsRepo: false,
+      repository,
+      symlinkTarget,
     };
 
     itemInfo.allPathsLeadToRepo = itemInfo.type === ItemType.RepoDirectory;
 
-    if (itemInfo.type === ItemType.RepoDirectory) {
-      itemInfo.gitStatus = await this._git.getGitStatus(entry.path);
+    // Nested repositories are what this tool is for, so they are always
+    // listed even when the enclosing repository ignores them.
+    if (!repository && context.ignoredPaths.has(entry.path)) {
+      if (!options.showIgnored) {
+        return undefined;
+      }
+      itemInfo.ignored = true;
+    }
+
+    // With symlinks followed, the same repository can be reached more than
+    // once. Only its first discovery is announced to listeners.
+    let firstDiscovery = true;
+    if (repository && fileId !== undefined) {
+      context.fileIds.set(itemInfo, fileId);
+      firstDiscovery = !context.discovered.has(fileId);
+      if (firstDiscovery) {
+        context.discovered.set(fileId, entry.path);
+      }
+    }
+    // A container is only listed for what it leads to, so it is not announced.
+    const announce = () => {
+      if (firstDiscovery && !isContainer) {
+        context.onRepository?.(itemInfo);
+      }
+    };
+
+    const override = repository
+      ? findRepoOverride(options.repoOverrides, entry.path, context.rootPath)
+      : {};
+    if (override.ignore) {
+      return undefined;
+    }
+
+    // A bare repository has no working tree: nothing to report and its
+    // contents are git internals, so it is neither queried nor descended into.
+    const isBare = repository?.kind === "bare";
+    if (isBare) {
+      if (isContainer) {
+        return undefined;
+      }
+      announce();
+      return itemInfo;
+    }
+
+    if (repository) {
+      await this.queryRepository(
+        itemInfo,
+        repository,
+        override.ignoreUntracked ?? false,
+        options.doctor,
+        pool,
+        record,
+      );
+      announce();
+
+      if (options.respectGitignore || options.showIgnored) {
+        const ignored = await pool.run(() =>
+          this._git.listIgnoredPaths(entry.path)
+        ).catch((error) => {
+          this._log.warn(
+            `Could not list ignored files in ${entry.path}: ${error}`,
+          );
+          return [];
+        });
+        for (const relativePath of ignored) {
+          context.ignoredPaths.add(
+            join(entry.path, relativePath.replace(/\/$/, "")),
+          );
+        }
+      }
     }
 
     const isDirectory = itemInfo.type === ItemType.Directory ||
       itemInfo.type === ItemType.RepoDirectory;
     const reachedMaxDepth = currentDepth >= options.depth;
-    const skip = options.skipDirectories.has(entry.name);
 
     if (isDirectory) {
-      if (skip || reachedMaxDepth) {
-        return itemInfo;
+      if (selection === "skip" || reachedMaxDepth) {
+        return isContainer ? undefined : itemInfo;
       }
 
       try {
-        for await (const childEntry of this._fileSystem.readDir(entry.path)) {
-          if (!options.includeHidden && childEntry.name.startsWith(".")) {
-            continue;
-          }
-          const childPath = join(entry.path, childEntry.name);
-          const childItemInfo = await this.buildItemInfoTree(
-            {
-              path: childPath,
-              name: childEntry.name,
-              isDirectory: childEntry.isDirectory,
-              isFile: childEntry.isFile,
-              isSymlink: childEntry.isSymlink,
-            },
-            currentDepth + 1,
-            options,
-          );
-          itemInfo.children.push(childItemInfo);
+        const childEntries = await this.readChildEntries(
+          entry.path,
+          context,
+          record,
+        );
 
-          if (!childItemInfo.allPathsLeadToRepo) {
-            itemInfo.allPathsLeadToRepo = false;
-          }
+        // Children are scanned concurrently, but Promise.all keeps them in
+        // name order regardless of which one finishes first.
+        const childAncestors = fileId !== undefined
+          ? new Map(ancestors).set(fileId, entry.path)
+          : ancestors;
+        const children = await Promise.all(
+          childEntries.map((childEntry) =>
+            this.buildItemInfoTree(
+              childEntry,
+              currentDepth + 1,
+              context,
+              childAncestors,
+            )
+          ),
+        );
+        itemInfo.children = children.filter((child): child is ItemInfo =>
+          child !== undefined
+        );
 
-          const childIsRepo = childItemInfo.type === ItemType.RepoDirectory;
-          if (childIsRepo) {
-            itemInfo.containsRepo = true;
-          }
+        // Git lists an ignored directory once; everything in it is ignored too.
+        if (itemInfo.ignored) {
+          markIgnored(itemInfo.children);
         }
+
+        summarizeChildren(itemInfo);
       } catch (error) {
         if (error instanceof Deno.errors.PermissionDenied) {
           this._log.warn(
@@ -103,67 +739,374 @@ export class RepositoryTree {
       }
     }
 
+    // A directory entered only to look for included paths is dropped if it
+    // has none.
+    if (isContainer && itemInfo.children.length === 0) {
+      return undefined;
+    }
     return itemInfo;
   }
 
-  public async show(options: RepositoryTreeOptions = {}): Promise<void> {
-    const effectiveOptions: Required<RepositoryTreeOptions> = {
-      path: options.path || this._fileSystem.cwd(),
-      skipDirectories: new Set(
-        options.skipDirectories ?? ["node_modules", "build", ".gradle"],
-      ),
-      depth: options.depth ?? 10,
+  private resolveOptions(
+    options: RepositoryTreeOptions,
+  ): Required<RepositoryTreeOptions> {
+    return {
+      path: options.path ||
+        (options.roots?.length
+          ? commonParentPath(options.roots)
+          : this._fileSystem.cwd()),
+      roots: options.roots ?? [],
+      skip: options.skip ?? DEFAULT_CONFIG.skip,
+      exclude: options.exclude ?? DEFAULT_CONFIG.exclude,
+      include: options.include ?? DEFAULT_CONFIG.include,
+      depth: options.depth ?? DEFAULT_CONFIG.depth,
       includeHidden: options.includeHidden ?? false,
+      format: options.format ?? DEFAULT_CONFIG.format,
+      reposOnly: options.reposOnly ?? false,
+      collapseRepos: options.collapseRepos ?? false,
+      jobs: options.jobs ?? defaultConcurrency(),
+      filter: options.filter ?? {},
+      repoOverrides: options.repoOverrides ?? DEFAULT_CONFIG.repos,
+      display: options.display ?? {},
+      followSymlinks: options.followSymlinks ?? false,
+      respectGitignore: options.respectGitignore ?? false,
+      showIgnored: options.showIgnored ?? false,
+      sort: options.sort ?? "name",
+      dirsFirst: options.dirsFirst ?? false,
+      groupBy: options.groupBy ?? "none",
+      paths: options.paths ?? {},
+      summary: options.summary ?? false,
+      doctor: options.doctor ?? false,
     };
+  }
 
-    const resolvedPath = resolve(effectiveOptions.path);
+  private createContext(
+    options: Required<RepositoryTreeOptions>,
+    rootPath: string,
+    onRepository?: RepositoryListener,
+  ): ScanContext {
+    return {
+      options,
+      rootPath,
+      rules: {
+        skip: compilePathPatterns(options.skip),
+        exclude: compilePathPatterns(options.exclude),
+        include: compilePathPatterns(options.include),
+      },
+      pool: new WorkerPool(options.jobs),
+      onRepository,
+      fileIds: new Map(),
+      discovered: new Map(),
+      ignoredPaths: new Set(),
+    };
+  }
 
-    let rootEntry: WalkEntry;
+  /**
+   * Reads the entry for a scan root, logging why if it cannot be scanned.
+   */
+  private async readRootEntry(path: string): Promise<WalkEntry | undefined> {
     try {
-      const stat = await this._fileSystem.stat(resolvedPath);
-      if (stat.isDirectory) {
-        rootEntry = {
-          path: resolvedPath,
-          name: resolvedPath.split("/").pop() ||
-            resolvedPath.split("\\").pop() || "",
-          isDirectory: true,
-          isFile: false,
-          isSymlink: false,
-        };
-      } else if (stat.isFile) {
-        rootEntry = {
-          path: resolvedPath,
-          name: resolvedPath.split("/").pop() ||
-            resolvedPath.split("\\").pop() || "",
-          isDirectory: false,
-          isFile: true,
-          isSymlink: false,
-        };
-      } else {
+      const stat = await this._fileSystem.stat(path);
+      if (!stat.isDirectory && !stat.isFile) {
         this._log.error(
-          `Error: Path '${resolvedPath}' is neither a file nor a directory.`,
+          `Error: Path '${path}' is neither a file nor a directory.`,
         );
-        return;
+        return undefined;
       }
+      return {
+        path,
+        name: path.split("/").pop() || path.split("\\").pop() || "",
+        isDirectory: stat.isDirectory,
+        isFile: stat.isFile,
+        isSymlink: false,
+      };
     } catch (error) {
       if (error instanceof Deno.errors.NotFound) {
-        this._log.error(`Error: Path '${resolvedPath}' not found.`);
+        this._log.error(`Error: Path '${path}' not found.`);
       } else {
-        this._log.error(`Error accessing path '${resolvedPath}': ${error}`);
+        this._log.error(`Error accessing path '${path}': ${error}`);
       }
-      return;
+      return undefined;
     }
+  }
 
-    const root = await this.buildItemInfoTree(rootEntry, 0, effectiveOptions);
+  /**
+   * Walks the tree below `options.path` and returns it without printing anything.
+   * With several roots, they are scanned independently and listed under
+   * `options.path` by their relative paths.
+   * @param options The scan options.
+   * @param onRepository Optional listener called for every repository as it is discovered.
+   * @returns The root ItemInfo, or undefined if no root could be read.
+   */
+  public async scan(
+    options: RepositoryTreeOptions = {},
+    onRepository?: RepositoryListener,
+  ): Promise<ItemInfo | undefined> {
+    const effectiveOptions = this.resolveOptions(options);
+    const displayRoot = resolve(effectiveOptions.path);
+    const roots = distinctRoots(effectiveOptions.roots, displayRoot);
 
-    if (root.isDirectory && root.children.length > 0) {
-      root.children.forEach((child, index) => {
-        const isLastChild = index === root.children.length - 1;
-        const prefix = isLastChild ? "└── " : "├── ";
-        displayItemInfoTree(child, "", prefix);
+    const context = this.createContext(
+      effectiveOptions,
+      displayRoot,
+      onRepository,
+    );
+    const scanRoot = async (rootPath: string) => {
+      const rootEntry = await this.readRootEntry(rootPath);
+      if (!rootEntry) {
+        return undefined;
+      }
+      if (roots.length > 1) {
+        rootEntry.name = relative(displayRoot, rootPath) || rootEntry.name;
+      }
+      return await this.buildItemInfoTree(rootEntry, 0, {
+        ...context,
+        rootPath,
       });
+    };
+
+    let root: ItemInfo | undefined;
+    if (roots.length === 1) {
+      root = await scanRoot(roots[0]);
     } else {
-      displayItemInfoTree(root);
+      const children = (await Promise.all(roots.map(scanRoot))).filter((
+        child,
+      ): child is ItemInfo => child !== undefined);
+      if (children.length > 0) {
+        root = {
+          name: displayRoot.split("/").pop() || displayRoot,
+          path: displayRoot,
+          type: ItemType.Directory,
+          children,
+          allPathsLeadToRepo: children.every((child) =>
+            child.allPathsLeadToRepo
+          ),
+          containsRepo: children.some((child) =>
+            child.type === ItemType.RepoDirectory || child.containsRepo
+          ),
+        };
+      }
+    }
+
+    if (root && effectiveOptions.followSymlinks) {
+      markRepositoryAliases(root, context.fileIds);
+    }
+    await this._cache?.save(roots);
+    return root;
+  }
+
+  /**
+   * Rescans one directory of a scanned tree and puts the result in its
+   * place, leaving the rest of the tree as it is. A scan root, or any
+   * directory when following symlinks, where aliases span the whole tree,
+   * is rescanned with a full scan instead.
+   * @param root The tree returned by `scan`; it is updated in place.
+   * @param path The directory to rescan. If it is not in the tree, its
+   * closest ancestor that is, is rescanned.
+   * @param options The options the tree was scanned with.
+   * @returns The updated tree: `root` itself, or a new tree after a full
+   * scan, which is undefined if no root could be read.
+   */
+  public async rescanSubtree(
+    root: ItemInfo,
+    path: string,
+    options: RepositoryTreeOptions = {},
+  ): Promise<ItemInfo | undefined> {
+    const effectiveOptions = this.resolveOptions(options);
+    const displayRoot = resolve(effectiveOptions.path);
+    const roots = distinctRoots(effectiveOptions.roots, displayRoot);
+
+    // The items from the root down to the closest one containing `path`.
+    let chain = [root];
+    for (let item: ItemInfo | undefined = root; item;) {
+      item = item.children.find((child) => isWithin(path, child.path));
+      if (item) {
+        chain.push(item);
+      }
+    }
+    // What a repository ignores is only listed when the repository itself
+    // is scanned, so directories inside one are rescanned with it.
+    if (effectiveOptions.respectGitignore || effectiveOptions.showIgnored) {
+      const repoIndex = chain.findLastIndex((item) =>
+        item.type === ItemType.RepoDirectory
+      );
+      if (repoIndex >= 0) {
+        chain = chain.slice(0, repoIndex + 1);
+      }
+    }
+
+    const target = chain[chain.length - 1];
+    const parent = chain[chain.length - 2];
+    const rootPath = rootOf(target.path, roots);
+    if (
+      effectiveOptions.followSymlinks || !parent || rootPath === undefined ||
+      roots.includes(target.path)
+    ) {
+      return await this.scan(options);
+    }
+
+    // Listing the parent again tells whether the directory is still there,
+    // and what kind of entry it is, exactly as a full scan would see it.
+    let entries: CachedEntry[];
+    try {
+      entries = await this.listDirectory(parent.path);
+    } catch {
+      return await this.scan(options);
+    }
+    const entry = entries.find((candidate) => candidate.name === target.name);
+    const depth = relative(rootPath, target.path).split(/[\\/]/).length;
+    const rescanned = entry
+      ? await this.buildItemInfoTree(
+        { path: target.path, ...entry },
+        depth,
+        this.createContext(effectiveOptions, rootPath),
+      )
+      : undefined;
+
+    parent.children = parent.children.flatMap((child) =>
+      child !== target ? [child] : rescanned ? [rescanned] : []
+    );
+    for (const ancestor of chain.slice(0, -1).reverse()) {
+      summarizeChildren(ancestor);
+    }
+    await this._cache?.save(roots);
+    return root;
+  }
+
+  /**
+   * Scans like `scan`, yielding every repository that matches `options.filter`
+   * as soon as its status is known, before its children have been scanned.
+   * Leaving the loop early does not stop the scan; it finishes in the
+   * background unless its git commands are aborted.
+   * @param options The scan options.
+   * @returns The repositories in the order they were found.
+   */
+  public async *discover(
+    options: RepositoryTreeOptions = {},
+  ): AsyncGenerator<ItemInfo> {
+    const filter = options.filter ?? {};
+    const found: ItemInfo[] = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+    let failure: unknown;
+
+    this.scan(options, (repo) => {
+      if (matchesRepositoryFilter(repo, filter)) {
+        found.push(repo);
+        wake?.();
+      }
+    }).catch((error) => {
+      failure = error;
+    }).finally(() => {
+      finished = true;
+      wake?.();
+    });
+
+    while (found.length > 0 || !finished) {
+      if (found.length === 0) {
+        await new Promise<void>((resolve) => wake = resolve);
+        wake = undefined;
+        continue;
+      }
+      yield found.shift()!;
+    }
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Re-reads the git status of a single repository, ignoring any cached
+   * status, and stores the result on the item.
+   * @param item The ItemInfo object for a repository.
+   * @param options The options the tree was scanned with.
+   */
+  public async refreshStatus(
+    item: ItemInfo,
+    options: RepositoryTreeOptions = {},
+  ): Promise<void> {
+    const repository = item.repository;
+    if (!repository || repository.kind === "bare") {
+      return;
+    }
+
+    const effectiveOptions = this.resolveOptions(options);
+    const displayRoot = resolve(effectiveOptions.path);
+    const override = findRepoOverride(
+      effectiveOptions.repoOverrides,
+      item.path,
+      rootOf(item.path, distinctRoots(effectiveOptions.roots, displayRoot)) ??
+        displayRoot,
+    );
+    const pool = new WorkerPool(1);
+    const record = await this.cacheRecord(item.path, pool);
+    if (record) {
+      record.status = undefined;
+    }
+
+    await this.queryRepository(
+      item,
+      repository,
+      override.ignoreUntracked ?? false,
+      effectiveOptions.doctor,
+      pool,
+      record,
+    );
+  }
+
+  /**
+   * Applies the collapse, filter and pruning options to a scanned tree and
+   * prints it in the requested format.
+   * @param scanned The root ItemInfo returned by `scan`.
+   * @param options The display options.
+   */
+  public render(scanned: ItemInfo, options: RepositoryTreeOptions = {}): void {
+    const effectiveOptions = this.resolveOptions(options);
+    const output = formatTree(scanned, effectiveOptions);
+    if (
+      effectiveOptions.format === "ndjson" ||
+      effectiveOptions.format === "paths"
+    ) {
+      writeStdout(output);
+    } else {
+      console.log(output);
+    }
+  }
+
+  /**
+   * Scans the tree and prints it, followed by a summary line for the `tree`
+   * format.
+   * @param options The scan and display options.
+   * @returns The full scanned tree, before any filtering, for further checks.
+   */
+  public async show(
+    options: RepositoryTreeOptions = {},
+  ): Promise<ItemInfo | undefined> {
+    const effectiveOptions = this.resolveOptions(options);
+    const started = performance.now();
+
+    // NDJSON streams each repository as soon as it is found.
+    if (effectiveOptions.format === "ndjson") {
+      return await this.scan(effectiveOptions, (repo) => {
+        if (matchesRepositoryFilter(repo, effectiveOptions.filter)) {
+          console.log(formatNdjsonRecord(repo));
+        }
+      });
+    }
+
+    const root = await this.scan(effectiveOptions);
+    if (root) {
+      this.render(root, effectiveOptions);
+      if (effectiveOptions.format === "tree" && effectiveOptions.summary) {
+        console.log();
+        console.log(
+          formatRunSummary(
+            summarizeRepositories(root),
+            performance.now() - started,
+          ),
+        );
+      }
     }
+    return root;
   }
-}
\ No newline at end of file
+}
@@ -1,3 +1,18 @@
+import { assert, assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { DenoCommandRunner } from "./command_runner.ts";
+import { DenoFileSystem } from "./file_system.ts";
+import { GitService } from "./git.ts";
+import { RepositoryTree, RepositoryTreeOptions } from "./repo_tree.ts";
+import { ItemInfo, ItemType } from "./types.ts";
+import { walkItems } from "./walk.ts";
+import {
+  createRepository,
+  silentLog,
+  SlowStatusRunner,
+  withTempDir,
+} from "../test/test_helpers.ts";
+
 // import { assert, assertEquals } from "jsr:@std/assert";
 // import { beforeEach, describe, it } from "jsr:@std/testing/bdd";
 
@@ -8,7 +23,6 @@
 // import { RepositoryTree } from "./repo_tree.ts";
 // import { ItemType } from "./types.ts";
 
-
 // describe("showRepositoryTree", () => {
 //   let mockFs: MockFileSystem;
 //   let mockCommandRunner: MockCommandRunner;
@@ -49,3 +63,186 @@
 //     assertEquals(rootCall.children[1].name, "dir2");
 //   });
 // });
+
+async function scan(options: RepositoryTreeOptions): Promise<ItemInfo> {
+  const fileSystem = new DenoFileSystem();
+  const repoTree = new RepositoryTree(
+    silentLog,
+    fileSystem,
+    new GitService(fileSystem, new DenoCommandRunner(), silentLog),
+  );
+  const root = await repoTree.scan(options);
+  assert(root);
+  return root;
+}
+
+function find(root: ItemInfo, path: string): ItemInfo | undefined {
+  return [...walkItems(root)].find((item) => item.path === path);
+}
+
+// workspace
+// ├── projects
+// │   └── app (repo)
+// ├── links
+// │   ├── app-link -> ../projects/app
+// │   └── loop -> ..
+// └── external -> ../outside/lib (repo)
+async function createLinkedWorkspace(dir: string): Promise<string> {
+  const workspace = join(dir, "workspace");
+  await createRepository(join(workspace, "projects", "app"));
+  await createRepository(join(dir, "outside", "lib"));
+  await Deno.mkdir(join(workspace, "links"));
+  await Deno.symlink("../projects/app", join(workspace, "links", "app-link"));
+  await Deno.symlink("..", join(workspace, "links", "loop"));
+  await Deno.symlink("../outside/lib", join(workspace, "external"));
+  return workspace;
+}
+
+Deno.test("RepositoryTree lists symlinks without following them by default", async () => {
+  await withTempDir(async (dir) => {
+    const workspace = await createLinkedWorkspace(dir);
+    const root = await scan({ path: workspace });
+
+    const appLink = find(root, join(workspace, "links", "app-link"));
+    assertEquals(appLink?.symlinkTarget, "../projects/app");
+    assertEquals(appLink?.type, ItemType.File);
+    assertEquals(find(root, join(workspace, "external"))?.children, []);
+  });
+});
+
+Deno.test("RepositoryTree follows a symlink into a repository", async () => {
+  await withTempDir(async (dir) => {
+    const workspace = await createLinkedWorkspace(dir);
+    const root = await scan({ path: workspace, followSymlinks: true });
+
+    const external = find(root, join(workspace, "external"));
+    assertEquals(external?.type, ItemType.RepoDirectory);
+    assertEquals(external?.symlinkTarget, "../outside/lib");
+    assertEquals(external?.aliasOf, undefined);
+    assertEquals(external?.gitStatus?.branch, "main");
+    assert(find(root, join(workspace, "external", "README.md")));
+  });
+});
+
+Deno.test("RepositoryTree stops at a symlink back into an ancestor", async () => {
+  await withTempDir(async (dir) => {
+    const workspace = await createLinkedWorkspace(dir);
+    const root = await scan({ path: workspace, followSymlinks: true });
+
+    const loop = find(root, join(workspace, "links", "loop"));
+    assertEquals(loop?.symlinkTarget, "..");
+    assertEquals(loop?.aliasOf, workspace);
+    assertEquals(loop?.children, []);
+  });
+});
+
+Deno.test("RepositoryTree reports a repository reached twice as an alias", async () => {
+  await withTempDir(async (dir) => {
+    const workspace = await createLinkedWorkspace(dir);
+    const root = await scan({ path: workspace, followSymlinks: true });
+
+    const app = join(workspace, "projects", "app");
+    const appLink = find(root, join(workspace, "links", "app-link"));
+    assertEquals(appLink?.type, ItemType.RepoDirectory);
+    assertEquals(appLink?.aliasOf, app);
+    assertEquals(appLink?.children, []);
+    assertEquals(appLink?.gitStatus, find(root, app)?.gitStatus);
+    assertEquals(find(root, app)?.aliasOf, undefined);
+  });
+});
+
+// app (repo, ignores dist/ and vendor/)
+// ├── .gitignore
+// ├── README.md
+// ├── dist
+// │   └── app.js
+// ├── src
+// │   └── main.ts
+// └── vendor
+//     └── lib (repo)
+async function createRepositoryWithIgnoredPaths(dir: string): Promise<string> {
+  const app = join(dir, "app");
+  await createRepository(app);
+  await Deno.writeTextFile(join(app, ".gitignore"), "dist/\nvendor/\n");
+  await Deno.mkdir(join(app, "dist"));
+  await Deno.writeTextFile(join(app, "dist", "app.js"), "");
+  await Deno.mkdir(join(app, "src"));
+  await Deno.writeTextFile(join(app, "src", "main.ts"), "");
+  await createRepository(join(app, "vendor", "lib"));
+  return app;
+}
+
+Deno.test("RepositoryTree hides what a repository ignores with respectGitignore", async () => {
+  await withTempDir(async (dir) => {
+    const app = await createRepositoryWithIgnoredPaths(dir);
+
+    const everything = await scan({ path: dir, depth: 10 });
+    assert(find(everything, join(app, "dist", "app.js")));
+    assert(find(everything, join(app, "vendor", "lib")));
+
+    const root = await scan({ path: dir, depth: 10, respectGitignore: true });
+    assertEquals(
+      find(root, app)?.children.map((item) => item.name),
+      ["README.md", "src"],
+    );
+    // The nested repository is only reachable through an ignored directory.
+    assertEquals(find(root, join(app, "vendor", "lib")), undefined);
+  });
+});
+
+Deno.test("RepositoryTree marks what a repository ignores with showIgnored", async () => {
+  await withTempDir(async (dir) => {
+    const app = await createRepositoryWithIgnoredPaths(dir);
+    const root = await scan({ path: dir, depth: 10, showIgnored: true });
+
+    const ignored = (path: string) => find(root, join(app, path))?.ignored;
+    assertEquals(ignored("dist"), true);
+    assertEquals(ignored("dist/app.js"), true);
+    assertEquals(ignored("vendor"), true);
+    assertEquals(ignored("src"), undefined);
+    assertEquals(ignored("README.md"), undefined);
+
+    // A nested repository is listed as itself, not as ignored content.
+    const lib = find(root, join(app, "vendor", "lib"));
+    assertEquals(lib?.type, ItemType.RepoDirectory);
+    assertEquals(lib?.ignored, undefined);
+    assertEquals(lib?.gitStatus?.branch, "main");
+  });
+});
+
+Deno.test("RepositoryTree.discover yields repositories in the order their status is known", async () => {
+  await withTempDir(async (dir) => {
+    for (const name of ["a", "b", "c"]) {
+      await createRepository(join(dir, name));
+    }
+    await createRepository(join(dir, "c", "nested"));
+    await Deno.writeTextFile(join(dir, "c", "README.md"), "# edited\n");
+
+    const fileSystem = new DenoFileSystem();
+    const repoTree = new RepositoryTree(
+      silentLog,
+      fileSystem,
+      new GitService(
+        fileSystem,
+        // nested is only found once the status of c is known.
+        new SlowStatusRunner({ a: 400, c: 100, nested: 100 }),
+        silentLog,
+      ),
+    );
+
+    const found: string[] = [];
+    for await (const repo of repoTree.discover({ path: dir, jobs: 4 })) {
+      assert(repo.gitStatus);
+      found.push(repo.name);
+    }
+    assertEquals(found, ["b", "c", "nested", "a"]);
+
+    const dirty: string[] = [];
+    for await (
+      const repo of repoTree.discover({ path: dir, filter: { dirty: true } })
+    ) {
+      dirty.push(repo.name);
+    }
+    assertEquals(dirty, ["c"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { dirname, resolve, SEPARATOR } from "@std/path";
+
+/** Whether a path is a directory or anything below it. */
+export function isWithin(path: string, directory: string): boolean {
+  return path === directory ||
+    path.startsWith(
+      directory.endsWith(SEPARATOR) ? directory : directory + SEPARATOR,
+    );
+}
+
+/**
+ * Finds the closest directory that contains every path.
+ * @param paths Absolute paths.
+ * @returns The common parent, or the path itself if there is only one.
+ */
+export function commonParentPath(paths: readonly string[]): string {
+  let parent = resolve(paths[0]);
+  while (!paths.every((path) => isWithin(resolve(path), parent))) {
+    const next = dirname(parent);
+    if (next === parent) {
+      break;
+    }
+    parent = next;
+  }
+  return parent;
+}
+
+/**
+ * Lists the directories a run scans. Roots inside another root are dropped,
+ * since they are scanned as part of it.
+ * @param roots The requested roots; empty to scan `defaultRoot` alone.
+ * @param defaultRoot The root to scan when none were requested.
+ * @returns Absolute, distinct roots in the order they were given.
+ */
+export function distinctRoots(
+  roots: readonly string[],
+  defaultRoot: string,
+): string[] {
+  const resolved = (roots.length > 0 ? roots : [defaultRoot]).map((root) =>
+    resolve(root)
+  );
+  return resolved.filter((root, index) =>
+    !resolved.some((other, otherIndex) =>
+      otherIndex !== index && isWithin(root, other) &&
+      (root !== other || otherIndex < index)
+    )
+  );
+}
+
+/**
+ * Finds the root a path was scanned under.
+ * @param path An absolute path.
+ * @param roots The result of {@link distinctRoots}.
+ * @returns The root, or undefined if the path is outside all of them.
+ */
+export function rootOf(
+  path: string,
+  roots: readonly string[],
+): string | undefined {
+  return roots.find((root) => isWithin(path, root));
+}
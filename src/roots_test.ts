@@ -0,0 +1,18 @@
+import { assertEquals } from "@std/assert";
+import { commonParentPath, distinctRoots, rootOf } from "./roots.ts";
+
+Deno.test("commonParentPath finds the closest shared directory", () => {
+  assertEquals(commonParentPath(["/src/app"]), "/src/app");
+  assertEquals(commonParentPath(["/src/app", "/src/lib/core"]), "/src");
+  assertEquals(commonParentPath(["/src/app", "/work"]), "/");
+});
+
+Deno.test("distinctRoots drops roots that another root contains", () => {
+  assertEquals(
+    distinctRoots(["/src/app", "/src", "/work", "/src"], "/cwd"),
+    ["/src", "/work"],
+  );
+  assertEquals(distinctRoots([], "/cwd"), ["/cwd"]);
+  assertEquals(rootOf("/work/app/x", ["/src", "/work"]), "/work");
+  assertEquals(rootOf("/other", ["/src", "/work"]), undefined);
+});
@@ -0,0 +1,174 @@
+import { getRepositoryState, RepositoryState } from "./summary.ts";
+import { ItemInfo, ItemType } from "./types.ts";
+
+/**
+ * Order of the entries in every directory; ties are always broken by name.
+ * - `name`: alphabetical, case-insensitive
+ * - `status`: most urgent repository state first (error, dirty, unpushed, ...)
+ * - `age`: repositories that were committed to longest ago first
+ * - `type`: repositories, then plain directories, then files
+ */
+export type SortKey = "name" | "status" | "age" | "type";
+
+export const SORT_KEYS: readonly SortKey[] = ["name", "status", "age", "type"];
+
+/** `status` replaces the directory hierarchy with one heading per state. */
+export type GroupBy = "none" | "status";
+
+export const GROUP_BY_KEYS: readonly GroupBy[] = ["none", "status"];
+
+/** Repository states from most to least urgent. */
+const STATE_ORDER: readonly RepositoryState[] = [
+  "error",
+  "dirty",
+  "unpushed",
+  "clean",
+  "bare",
+];
+
+/**
+ * Compares names case-insensitively, falling back to a plain code unit
+ * comparison so the order never depends on the locale.
+ */
+export function compareNames(a: string, b: string): number {
+  const lowerA = a.toLowerCase();
+  const lowerB = b.toLowerCase();
+  if (lowerA !== lowerB) {
+    return lowerA < lowerB ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Time of the most recent commit in a repository, or for a directory, in any
+ * repository below it. A directory is as active as its most active repository.
+ */
+function lastActivity(item: ItemInfo): number | undefined {
+  if (item.type === ItemType.RepoDirectory) {
+    const date = item.activity?.lastCommit?.date;
+    return date !== undefined ? Date.parse(date) : undefined;
+  }
+  const times = item.children
+    .map(lastActivity)
+    .filter((time): time is number => time !== undefined);
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+/**
+ * Urgency of a repository's state, or for a directory, of the most urgent
+ * repository below it.
+ */
+function stateRank(item: ItemInfo): number | undefined {
+  if (item.type === ItemType.RepoDirectory) {
+    return STATE_ORDER.indexOf(getRepositoryState(item));
+  }
+  const ranks = item.children
+    .map(stateRank)
+    .filter((rank): rank is number => rank !== undefined);
+  return ranks.length > 0 ? Math.min(...ranks) : undefined;
+}
+
+function typeRank(item: ItemInfo): number {
+  switch (item.type) {
+    case ItemType.RepoDirectory:
+      return 0;
+    case ItemType.Directory:
+      return 1;
+    default:
+      return 2;
+  }
+}
+
+function sortValue(item: ItemInfo, key: SortKey): number | undefined {
+  switch (key) {
+    case "status":
+      return stateRank(item);
+    case "age":
+      return lastActivity(item);
+    case "type":
+      return typeRank(item);
+    default:
+      return 0;
+  }
+}
+
+/** Orders ascending, with entries without a value last. */
+function compareValues(a: number | undefined, b: number | undefined): number {
+  if (a === undefined || b === undefined) {
+    return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+  }
+  return a - b;
+}
+
+function isDirectoryItem(item: ItemInfo): boolean {
+  return item.type === ItemType.Directory ||
+    item.type === ItemType.RepoDirectory;
+}
+
+/**
+ * Sorts the children of every item in the tree.
+ * @param item The ItemInfo object to sort.
+ * @param key What to sort by.
+ * @param dirsFirst List directories and repositories before files.
+ * @returns The sorted copy of the item.
+ */
+export function sortTree(
+  item: ItemInfo,
+  key: SortKey,
+  dirsFirst = false,
+): ItemInfo {
+  // Values are computed once per child, as they can require a walk of its subtree.
+  const children = item.children
+    .map((child) => ({
+      child: sortTree(child, key, dirsFirst),
+      value: sortValue(child, key),
+    }))
+    .sort((a, b) =>
+      (dirsFirst
+        ? Number(!isDirectoryItem(a.child)) - Number(!isDirectoryItem(b.child))
+        : 0) ||
+      compareValues(a.value, b.value) ||
+      compareNames(a.child.name, b.child.name)
+    )
+    .map(({ child }) => child);
+  return { ...item, children };
+}
+
+/**
+ * Replaces the directory hierarchy with one heading per repository state,
+ * most urgent first. Each repository is listed under its heading by its path
+ * relative to the root, without its files.
+ * @param root The root ItemInfo object.
+ * @param repositories The repositories to bucket, e.g. those matching a filter.
+ * @param relativePath Names a repository within the root.
+ * @returns A new tree with the state headings as children of the root.
+ */
+export function groupRepositoriesByStatus(
+  root: ItemInfo,
+  repositories: ItemInfo[],
+  relativePath: (repo: ItemInfo) => string,
+): ItemInfo {
+  const headings = STATE_ORDER.map((state): ItemInfo => {
+    const children = repositories
+      .filter((repo) => getRepositoryState(repo) === state)
+      .map((repo) => ({
+        ...repo,
+        name: relativePath(repo),
+        children: [],
+        collapsedChildCount: undefined,
+      }));
+    return {
+      name: `${state} (${children.length})`,
+      path: root.path,
+      type: ItemType.Directory,
+      children,
+      allPathsLeadToRepo: children.length > 0,
+      containsRepo: children.length > 0,
+    };
+  });
+
+  return {
+    ...root,
+    children: headings.filter((heading) => heading.children.length > 0),
+  };
+}
@@ -0,0 +1,63 @@
+import { assertEquals } from "@std/assert";
+import { sortTree } from "./sort.ts";
+import { ItemInfo } from "./types.ts";
+import {
+  directoryItem,
+  fileItem,
+  repoItem,
+  repoStatus,
+} from "../test/item_fixtures.ts";
+
+function repo(name: string, hasWorkingChanges: boolean): ItemInfo {
+  return repoItem(`/work/${name}`, {
+    gitStatus: repoStatus({ hasWorkingChanges }),
+  });
+}
+
+const root = directoryItem("/work", [
+  fileItem("/work/notes.txt"),
+  repo("b-clean", false),
+  directoryItem("/work/Docs", []),
+  repo("a-dirty", true),
+  repo("c-dirty", true),
+]);
+
+function names(tree: ItemInfo): string[] {
+  return tree.children.map((child) => child.name);
+}
+
+Deno.test("sortTree orders by name case-insensitively", () => {
+  assertEquals(names(sortTree(root, "name")), [
+    "a-dirty",
+    "b-clean",
+    "c-dirty",
+    "Docs",
+    "notes.txt",
+  ]);
+});
+
+Deno.test("sortTree breaks ties by name and can list directories first", () => {
+  assertEquals(names(sortTree(root, "status")), [
+    "a-dirty",
+    "c-dirty",
+    "b-clean",
+    "Docs",
+    "notes.txt",
+  ]);
+  assertEquals(names(sortTree(root, "type")), [
+    "a-dirty",
+    "b-clean",
+    "c-dirty",
+    "Docs",
+    "notes.txt",
+  ]);
+  const withFile = { ...root, children: [...root.children] };
+  withFile.children[0] = fileItem("/work/a.txt");
+  assertEquals(names(sortTree(withFile, "name", true)), [
+    "a-dirty",
+    "b-clean",
+    "c-dirty",
+    "Docs",
+    "a.txt",
+  ]);
+});
@@ -0,0 +1,110 @@
+import { formatHealthWarningCounts, HealthWarningKind } from "./doctor.ts";
+import { ItemInfo, ItemType } from "./types.ts";
+import { collectRepositories, walkItems } from "./walk.ts";
+
+/**
+ * Overall state of a repository, from most to least urgent:
+ * an unreadable status first, then local edits, then commits to push or
+ * pull, then clean.
+ */
+export type RepositoryState = "error" | "dirty" | "unpushed" | "clean" | "bare";
+
+/**
+ * Classifies a repository by its Git status.
+ * @param repo The ItemInfo object for a repository.
+ */
+export function getRepositoryState(repo: ItemInfo): RepositoryState {
+  const status = repo.gitStatus;
+  if (repo.repository?.kind === "bare") {
+    return "bare";
+  } else if (repo.error !== undefined) {
+    return "error";
+  } else if (status?.hasWorkingChanges) {
+    return "dirty";
+  } else if (status?.hasUnpushedChanges || (status?.behind ?? 0) > 0) {
+    return "unpushed";
+  }
+  return "clean";
+}
+
+export interface RepositorySummary {
+  /** Directories in the tree, repositories included. */
+  directories: number;
+  repositories: number;
+  clean: number;
+  dirty: number;
+  unpushed: number;
+  bare: number;
+  error: number;
+  /** Repositories behind their upstream, whatever their state. */
+  behind: number;
+  /** Repositories with each kind of health warning, when the checks ran. */
+  warnings: Partial<Record<HealthWarningKind, number>>;
+}
+
+/**
+ * Counts the repositories in a tree by state.
+ * @param root The root ItemInfo object.
+ */
+export function summarizeRepositories(root: ItemInfo): RepositorySummary {
+  const summary: RepositorySummary = {
+    directories: 0,
+    repositories: 0,
+    clean: 0,
+    dirty: 0,
+    unpushed: 0,
+    bare: 0,
+    error: 0,
+    behind: 0,
+    warnings: {},
+  };
+  for (const item of walkItems(root)) {
+    if (
+      item.type === ItemType.Directory || item.type === ItemType.RepoDirectory
+    ) {
+      summary.directories++;
+    }
+  }
+  for (const repo of collectRepositories(root)) {
+    summary.repositories++;
+    summary[getRepositoryState(repo)]++;
+    if ((repo.gitStatus?.behind ?? 0) > 0) {
+      summary.behind++;
+    }
+    for (const kind of new Set(repo.warnings?.map((warning) => warning.kind))) {
+      summary.warnings[kind] = (summary.warnings[kind] ?? 0) + 1;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Formats the end-of-run summary line, e.g.
+ * `Scanned 120 directories in 1.4s: 7 repositories, 4 clean, 2 dirty, ...`,
+ * followed by the health warnings, if any.
+ * @param summary The counts of the scanned tree.
+ * @param elapsedMs How long the scan took.
+ * @returns The summary line.
+ */
+export function formatRunSummary(
+  summary: RepositorySummary,
+  elapsedMs: number,
+): string {
+  const elapsed = elapsedMs < 1000
+    ? `${Math.round(elapsedMs)}ms`
+    : `${(elapsedMs / 1000).toFixed(1)}s`;
+  const counts = [
+    `${summary.repositories} ${
+      summary.repositories === 1 ? "repository" : "repositories"
+    }`,
+    `${summary.clean} clean`,
+    `${summary.dirty} dirty`,
+    `${summary.unpushed} unpushed`,
+    `${summary.behind} behind`,
+    `${summary.error} errored`,
+  ];
+  const warnings = formatHealthWarningCounts(summary.warnings);
+  return `Scanned ${summary.directories} ${
+    summary.directories === 1 ? "directory" : "directories"
+  } in ${elapsed}: ${counts.join(", ")}${warnings ? `; ⚠ ${warnings}` : ""}`;
+}
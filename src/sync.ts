@@ -0,0 +1,173 @@
+import { relative } from "@std/path";
+import { matchesRepositoryFilter } from "./filter.ts";
+import { GitService, GitStatus } from "./git.ts";
+import { Logger } from "./logger.ts";
+import { defaultConcurrency, WorkerPool } from "./pool.ts";
+import { RepositoryTree, RepositoryTreeOptions } from "./repo_tree.ts";
+import { ItemInfo } from "./types.ts";
+import { collectRepositories } from "./walk.ts";
+
+export type SyncOutcome =
+  | "updated"
+  | "up-to-date"
+  | "skipped-dirty"
+  | "diverged"
+  | "failed";
+
+export interface SyncResult {
+  path: string;
+  outcome: SyncOutcome;
+  message?: string;
+}
+
+export interface SyncOptions extends RepositoryTreeOptions {
+  /** Also run `git pull --ff-only` after fetching. */
+  pull?: boolean;
+  /** Sync repositories even if their working tree has local changes. */
+  force?: boolean;
+}
+
+/**
+ * Fetches (and optionally fast-forwards) every repository found by RepositoryTree.
+ */
+export class RepositorySync {
+  constructor(
+    private readonly _log: Logger,
+    private readonly _repoTree: RepositoryTree,
+    private readonly _git: GitService,
+  ) {
+  }
+
+  /**
+   * Re-reads the status of a repository, honouring its per-repository
+   * overrides. The scanned status may be long out of date by the time a
+   * repository's turn comes, and must not let a pull run over local changes.
+   */
+  private async readStatus(
+    repo: ItemInfo,
+    options: SyncOptions,
+  ): Promise<GitStatus> {
+    await this._repoTree.refreshStatus(repo, options);
+    if (!repo.gitStatus) {
+      throw new Error(
+        repo.error ?? `Could not read the status of ${repo.path}`,
+      );
+    }
+    return repo.gitStatus;
+  }
+
+  private async syncRepository(
+    repo: ItemInfo,
+    options: SyncOptions,
+  ): Promise<SyncResult> {
+    try {
+      const before = await this.readStatus(repo, options);
+      if (before.hasWorkingChanges && !options.force) {
+        return { path: repo.path, outcome: "skipped-dirty" };
+      }
+
+      await this._git.fetch(repo.path);
+      // Fetching can take a while; check for local changes again right
+      // before pulling.
+      const after = await this.readStatus(repo, options);
+      if (after.hasWorkingChanges && !options.force) {
+        return { path: repo.path, outcome: "skipped-dirty" };
+      }
+
+      if (!after.upstream) {
+        return {
+          path: repo.path,
+          outcome: "up-to-date",
+          message: "no upstream configured",
+        };
+      }
+      if (after.ahead > 0 && after.behind > 0) {
+        return {
+          path: repo.path,
+          outcome: "diverged",
+          message: `${after.ahead} ahead, ${after.behind} behind`,
+        };
+      }
+
+      if (options.pull && after.behind > 0) {
+        await this._git.pullFastForward(repo.path);
+        return {
+          path: repo.path,
+          outcome: "updated",
+          message: `fast-forwarded ${after.behind} commit(s)`,
+        };
+      }
+
+      if (after.behind > before.behind) {
+        return {
+          path: repo.path,
+          outcome: "updated",
+          message: `fetched, ${after.behind} commit(s) behind`,
+        };
+      }
+
+      return { path: repo.path, outcome: "up-to-date" };
+    } catch (error) {
+      return {
+        path: repo.path,
+        outcome: "failed",
+        message: (Error.isError(error) ? error.message : String(error))
+          .replace(/\s+/g, " ")
+          .trim(),
+      };
+    }
+  }
+
+  /**
+   * Discovers repositories below `options.path` and syncs them in parallel.
+   * @param options The scan and sync options.
+   * @returns One result per repository, in tree order.
+   */
+  public async sync(options: SyncOptions = {}): Promise<SyncResult[]> {
+    const root = await this._repoTree.scan(options);
+    if (!root) {
+      return [];
+    }
+
+    const filter = options.filter ?? {};
+    const repositories = collectRepositories(root).filter((repo) =>
+      repo.repository?.kind !== "bare" && matchesRepositoryFilter(repo, filter)
+    );
+    this._log.info(`Syncing ${repositories.length} repositories...`);
+
+    const pool = new WorkerPool(options.jobs ?? defaultConcurrency());
+    return await Promise.all(
+      repositories.map((repo) =>
+        pool.run(() => this.syncRepository(repo, options))
+      ),
+    );
+  }
+}
+
+/**
+ * Formats sync results as a plain-text table with one row per repository.
+ * @param results The sync results.
+ * @param rootPath Paths are shown relative to this directory.
+ * @returns The table, one line per row.
+ */
+export function formatSyncTable(
+  results: SyncResult[],
+  rootPath: string,
+): string {
+  const rows = results.map((result) => [
+    relative(rootPath, result.path) || ".",
+    result.outcome,
+    result.message ?? "",
+  ]);
+  const header = ["REPOSITORY", "RESULT", "DETAILS"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+
+  return [header, ...rows]
+    .map((row) =>
+      row.map((cell, column) => cell.padEnd(widths[column])).join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
@@ -0,0 +1,79 @@
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import { DenoCommandRunner } from "./command_runner.ts";
+import { DenoFileSystem } from "./file_system.ts";
+import { GitService } from "./git.ts";
+import { RepositoryTree } from "./repo_tree.ts";
+import { RepositorySync, SyncOutcome } from "./sync.ts";
+import { git, silentLog } from "../test/test_helpers.ts";
+
+/** Creates a bare remote with one commit and returns its path. */
+async function createRemote(root: string, name: string): Promise<string> {
+  const remote = join(root, "remotes", `${name}.git`);
+  const seed = join(root, "seed", name);
+  await Deno.mkdir(remote, { recursive: true });
+  await Deno.mkdir(seed, { recursive: true });
+  await git(remote, "init", "--bare", "--initial-branch=main");
+  await git(seed, "init", "--initial-branch=main");
+  await Deno.writeTextFile(join(seed, "README.md"), "# seed\n");
+  await git(seed, "add", "README.md");
+  await git(seed, "commit", "-m", "Initial commit");
+  await git(seed, "remote", "add", "origin", remote);
+  await git(seed, "push", "origin", "main");
+  return remote;
+}
+
+/** Pushes a new commit to the remote through its seed checkout. */
+async function pushNewCommit(root: string, name: string): Promise<void> {
+  const seed = join(root, "seed", name);
+  await Deno.writeTextFile(join(seed, `${crypto.randomUUID()}.txt`), "x\n");
+  await git(seed, "add", ".");
+  await git(seed, "commit", "-m", "Upstream change");
+  await git(seed, "push", "origin", "main");
+}
+
+Deno.test("RepositorySync reports a result for every repository", async () => {
+  const root = await Deno.makeTempDir({ prefix: "repo_tree_sync_" });
+  try {
+    const workspace = join(root, "workspace");
+    for (const name of ["clean", "behind", "dirty", "edited", "diverged"]) {
+      const remote = await createRemote(root, name);
+      await git(root, "clone", remote, join(workspace, name));
+    }
+
+    await pushNewCommit(root, "behind");
+    await pushNewCommit(root, "dirty");
+    await Deno.writeTextFile(join(workspace, "dirty", "local.txt"), "edit\n");
+    await pushNewCommit(root, "edited");
+    await Deno.writeTextFile(join(workspace, "edited", "README.md"), "edit\n");
+    await pushNewCommit(root, "diverged");
+    await Deno.writeTextFile(join(workspace, "diverged", "local.txt"), "x\n");
+    await git(join(workspace, "diverged"), "add", "local.txt");
+    await git(join(workspace, "diverged"), "commit", "-m", "Local change");
+
+    const fileSystem = new DenoFileSystem();
+    const gitService = new GitService(
+      fileSystem,
+      new DenoCommandRunner(),
+      silentLog,
+    );
+    const repoTree = new RepositoryTree(silentLog, fileSystem, gitService);
+    const repoSync = new RepositorySync(silentLog, repoTree, gitService);
+
+    const results = await repoSync.sync({ path: workspace, pull: true });
+    const outcomes: Record<string, SyncOutcome> = {};
+    for (const result of results) {
+      outcomes[result.path.slice(workspace.length + 1)] = result.outcome;
+    }
+
+    assertEquals(outcomes, {
+      behind: "updated",
+      clean: "up-to-date",
+      dirty: "skipped-dirty",
+      diverged: "diverged",
+      edited: "skipped-dirty",
+    });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -1,4 +1,7 @@
-import { GitStatus } from "./git.ts";
+import type { HealthWarning } from "./doctor.ts";
+import { RepositoryActivity, RepositoryInfo } from "./git.ts";
+import { GitStatus } from "./git_status.ts";
+import { RemoteInfo } from "./remotes.ts";
 
 export enum ItemType {
   File,
@@ -7,12 +10,51 @@ export enum ItemType {
   Unknown,
 }
 
+export type OutputFormat =
+  | "tree"
+  | "json"
+  | "ndjson"
+  | "markdown"
+  | "html"
+  | "paths";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+  "tree",
+  "json",
+  "ndjson",
+  "markdown",
+  "html",
+  "paths",
+];
+
 export interface ItemInfo {
   name: string;
+  path: string;
   type: ItemType;
   isDirectory?: boolean;
   children: ItemInfo[];
   allPathsLeadToRepo: boolean;
   containsRepo: boolean;
   gitStatus?: GitStatus;
+  /** How the repository was detected; set for every RepoDirectory. */
+  repository?: RepositoryInfo;
+  /** Why the status of a repository could not be read. */
+  error?: string;
+  /** Last commit and fetch of a repository. */
+  activity?: RepositoryActivity;
+  /** Remotes of a repository; undefined when they could not be read. */
+  remotes?: RemoteInfo[];
+  /** Where the entry points to, if it is a symbolic link. */
+  symlinkTarget?: string;
+  /**
+   * Path this entry was already reported at, when symlinks lead to the same
+   * repository twice or back into an ancestor directory.
+   */
+  aliasOf?: string;
+  /** Ignored by the `.gitignore` rules of the repository it belongs to. */
+  ignored?: boolean;
+  /** Number of entries hidden when a repository is shown collapsed. */
+  collapsedChildCount?: number;
+  /** Problems found by the health checks; set only when they ran. */
+  warnings?: HealthWarning[];
 }
@@ -0,0 +1,24 @@
+import { ItemInfo, ItemType } from "./types.ts";
+
+/**
+ * Iterates over an ItemInfo tree depth-first, parents before children.
+ * @param root The root ItemInfo object.
+ */
+export function* walkItems(root: ItemInfo): Generator<ItemInfo> {
+  yield root;
+  for (const child of root.children) {
+    yield* walkItems(child);
+  }
+}
+
+/**
+ * Collects every repository in the tree, in display order.
+ * Aliases of a repository reached through a symlink are left out.
+ * @param root The root ItemInfo object.
+ * @returns The repository items, including nested repositories.
+ */
+export function collectRepositories(root: ItemInfo): ItemInfo[] {
+  return [...walkItems(root)].filter((item) =>
+    item.type === ItemType.RepoDirectory && item.aliasOf === undefined
+  );
+}
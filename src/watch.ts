@@ -0,0 +1,237 @@
+import { basename, dirname, relative } from "@std/path";
+import { DEFAULT_CONFIG } from "./config.ts";
+import { FileSystem } from "./file_system.ts";
+import { Logger } from "./logger.ts";
+import { compilePathPatterns, matchPathPatterns } from "./patterns.ts";
+import { RepositoryTree, RepositoryTreeOptions } from "./repo_tree.ts";
+import { distinctRoots, isWithin, rootOf } from "./roots.ts";
+import { ItemInfo } from "./types.ts";
+import { collectRepositories } from "./walk.ts";
+
+export interface WatchOptions extends RepositoryTreeOptions {
+  /** Quiet period after the last filesystem event before refreshing. */
+  debounceMs?: number;
+}
+
+/** Event kinds that can add or remove entries from the tree. */
+const STRUCTURAL_EVENTS: ReadonlySet<Deno.FsEvent["kind"]> = new Set([
+  "create",
+  "remove",
+  "rename",
+]);
+
+/**
+ * Finds the innermost repository a changed path belongs to, either through
+ * its working tree or its git directory.
+ */
+function findOwningRepository(
+  path: string,
+  repositories: ItemInfo[],
+): ItemInfo | undefined {
+  let owner: ItemInfo | undefined;
+  let ownerLength = -1;
+  for (const repo of repositories) {
+    for (const directory of [repo.path, repo.repository?.gitDir]) {
+      if (
+        directory && directory.length > ownerLength && isWithin(path, directory)
+      ) {
+        owner = repo;
+        ownerLength = directory.length;
+      }
+    }
+  }
+  return owner;
+}
+
+/**
+ * Finds the directory that becomes, or stops being, a repository when `path`
+ * is created or removed: the parent of a `.git` entry, or a directory that
+ * gets the HEAD file of a new bare repository.
+ */
+function repositoryDirectoryOf(
+  path: string,
+  repositories: ItemInfo[],
+): string | undefined {
+  const directory = dirname(path);
+  if (basename(path) === ".git") {
+    return directory;
+  }
+  const isNewBareRepository = basename(path) === "HEAD" &&
+    !directory.split(/[\\/]/).includes(".git") &&
+    !repositories.some((repo) =>
+      repo.repository !== undefined && isWithin(path, repo.repository.gitDir)
+    );
+  return isNewBareRepository ? directory : undefined;
+}
+
+/**
+ * Keeps a scanned tree up to date by watching the filesystem below its root.
+ */
+export class RepositoryWatcher {
+  constructor(
+    private readonly _log: Logger,
+    private readonly _fileSystem: FileSystem,
+    private readonly _repoTree: RepositoryTree,
+  ) {
+  }
+
+  /**
+   * Applies one debounced batch of events to the tree, touching only what
+   * the events concern:
+   * - changes in a git directory, edits to files in a working tree and
+   *   hidden entries only refresh the status of the repository
+   * - entries created or removed in a working tree rescan that repository
+   * - entries created or removed elsewhere, including a repository directory
+   *   itself, rescan the directory that lists them
+   * - a `.git` entry created or removed, e.g. by `git init` or `rm -rf .git`,
+   *   rescans the directory it belongs to, even though it is hidden
+   */
+  private async applyChanges(
+    root: ItemInfo,
+    events: Deno.FsEvent[],
+    options: WatchOptions,
+  ): Promise<ItemInfo> {
+    const repositories = collectRepositories(root);
+    // Hidden entries, like editors' swap files, are not part of the tree.
+    const isListed = (path: string) =>
+      options.includeHidden ||
+      !relative(root.path, path).split(/[\\/]/).some((segment) =>
+        segment.startsWith(".")
+      );
+
+    const rescans = new Set<string>();
+    const refreshes = new Set<ItemInfo>();
+    for (const event of events) {
+      const structural = STRUCTURAL_EVENTS.has(event.kind);
+      for (const path of event.paths) {
+        const repositoryDirectory = structural
+          ? repositoryDirectoryOf(path, repositories)
+          : undefined;
+        if (repositoryDirectory !== undefined) {
+          rescans.add(repositoryDirectory);
+          continue;
+        }
+        const owner = findOwningRepository(path, repositories);
+        if (owner && path !== owner.path) {
+          const inGitDir = owner.repository !== undefined &&
+            isWithin(path, owner.repository.gitDir);
+          if (structural && !inGitDir && isListed(path)) {
+            rescans.add(owner.path);
+          } else {
+            refreshes.add(owner);
+          }
+        } else if (structural && isListed(path)) {
+          const directory = dirname(path);
+          rescans.add(
+            findOwningRepository(directory, repositories)?.path ?? directory,
+          );
+        }
+      }
+    }
+
+    // Rescanning a directory covers everything below it.
+    const targets = [...rescans].filter((path) =>
+      ![...rescans].some((other) => other !== path && isWithin(path, other))
+    );
+    for (const target of targets) {
+      const updated = await this._repoTree.rescanSubtree(
+        root,
+        target,
+        options,
+      );
+      if (!updated) {
+        this._log.warn("Rescan failed, keeping the previous tree.");
+      } else if (updated !== root) {
+        // A full scan read every status afresh.
+        return updated;
+      }
+    }
+
+    await Promise.all(
+      [...refreshes]
+        .filter((repo) =>
+          !targets.some((target) => isWithin(repo.path, target))
+        )
+        .map((repo) => this._repoTree.refreshStatus(repo, options)),
+    );
+    return root;
+  }
+
+  /**
+   * Scans once, then re-evaluates the tree whenever files below the root change.
+   * @param options The scan and watch options.
+   * @param onUpdate Called with the full tree after the first scan and after every refresh.
+   * @param signal Stops watching when aborted.
+   */
+  async watch(
+    options: WatchOptions,
+    onUpdate: (root: ItemInfo) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    let root = await this._repoTree.scan(options);
+    if (!root) {
+      return;
+    }
+    onUpdate(root);
+
+    const rootPaths = distinctRoots(
+      options.roots ?? [],
+      options.path ?? this._fileSystem.cwd(),
+    );
+    const debounceMs = options.debounceMs ?? 250;
+    const watcher = this._fileSystem.watchFs(rootPaths);
+    signal?.addEventListener("abort", () => watcher.close(), { once: true });
+
+    let pending: Deno.FsEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Batches are applied one after another so refreshes never interleave.
+    let queue = Promise.resolve();
+
+    const flush = () => {
+      const batch = pending;
+      pending = [];
+      queue = queue.then(async () => {
+        try {
+          root = await this.applyChanges(root!, batch, options);
+          onUpdate(root);
+        } catch (error) {
+          this._log.error(`Error refreshing tree: ${error}`);
+        }
+      });
+    };
+
+    // Churn inside skipped or excluded directories (node_modules, build
+    // output...) never shows up in the tree. `.git` is skipped for listing
+    // but still matters.
+    const skipped = compilePathPatterns(
+      (options.skip ?? DEFAULT_CONFIG.skip).filter((pattern) =>
+        pattern !== ".git"
+      ),
+    );
+    const excluded = compilePathPatterns(
+      options.exclude ?? DEFAULT_CONFIG.exclude,
+    );
+    const isRelevant = (path: string) => {
+      const rootPath = rootOf(path, rootPaths);
+      if (rootPath === undefined) {
+        return false;
+      }
+      const relativePath = relative(rootPath, path);
+      return !matchPathPatterns(skipped, relativePath, false) &&
+        !matchPathPatterns(excluded, relativePath, false);
+    };
+
+    for await (const event of watcher) {
+      const paths = event.paths.filter(isRelevant);
+      if (event.kind === "access" || paths.length === 0) {
+        continue;
+      }
+      pending.push({ ...event, paths });
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+    }
+
+    clearTimeout(timer);
+    await queue;
+  }
+}
@@ -0,0 +1,184 @@
+import { assert, assertEquals } from "@std/assert";
+import { join } from "@std/path";
+import {
+  CommandOptions,
+  CommandResult,
+  DenoCommandRunner,
+} from "./command_runner.ts";
+import { DenoFileSystem } from "./file_system.ts";
+import { GitService } from "./git.ts";
+import { RepositoryTree } from "./repo_tree.ts";
+import { ItemInfo, ItemType } from "./types.ts";
+import { walkItems } from "./walk.ts";
+import { RepositoryWatcher } from "./watch.ts";
+import { createRepository, git, silentLog } from "../test/test_helpers.ts";
+
+/** Records the repositories `git status` runs in. */
+class StatusRecorder extends DenoCommandRunner {
+  public statusPaths: string[] = [];
+
+  override runCommand(
+    args: string[],
+    opts: CommandOptions,
+  ): Promise<CommandResult> {
+    if (args[1] === "status" && opts.cwd) {
+      this.statusPaths.push(opts.cwd);
+    }
+    return super.runCommand(args, opts);
+  }
+}
+
+/** A file system whose watcher only reports the events a test sends. */
+class FakeWatchFileSystem extends DenoFileSystem {
+  private _events: Deno.FsEvent[] = [];
+  private _wake?: () => void;
+  private _closed = false;
+
+  send(kind: Deno.FsEvent["kind"], ...paths: string[]): void {
+    this._events.push({ kind, paths });
+    this._wake?.();
+  }
+
+  override watchFs(_paths: string | string[]): Deno.FsWatcher {
+    const close = () => {
+      this._closed = true;
+      this._wake?.();
+    };
+    const next = async (): Promise<IteratorResult<Deno.FsEvent>> => {
+      while (this._events.length === 0 && !this._closed) {
+        await new Promise<void>((resolve) => this._wake = resolve);
+      }
+      return this._closed
+        ? { done: true, value: undefined }
+        : { done: false, value: this._events.shift()! };
+    };
+    return {
+      close,
+      [Symbol.asyncIterator]: () => ({ next }),
+    } as unknown as Deno.FsWatcher;
+  }
+}
+
+function find(root: ItemInfo, path: string): ItemInfo | undefined {
+  return [...walkItems(root)].find((item) => item.path === path);
+}
+
+Deno.test("RepositoryWatcher only re-reads the repositories that changed", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "repo_tree_watch_" });
+  const controller = new AbortController();
+  try {
+    const workspace = join(dir, "workspace");
+    const group = join(workspace, "group");
+    await createRepository(join(group, "app"));
+    await createRepository(join(group, "lib"));
+    await Deno.mkdir(join(workspace, "notes"));
+
+    const fileSystem = new FakeWatchFileSystem();
+    const runner = new StatusRecorder();
+    const repoTree = new RepositoryTree(
+      silentLog,
+      fileSystem,
+      new GitService(fileSystem, runner, silentLog),
+    );
+    const watcher = new RepositoryWatcher(silentLog, fileSystem, repoTree);
+
+    const updates: ItemInfo[] = [];
+    let updated: (() => void) | undefined;
+    const nextUpdate = async (send: () => void): Promise<ItemInfo> => {
+      const count = updates.length;
+      runner.statusPaths = [];
+      send();
+      while (updates.length === count) {
+        await new Promise<void>((resolve) => updated = resolve);
+      }
+      return updates[updates.length - 1];
+    };
+    const watching = watcher.watch(
+      { path: workspace, debounceMs: 0 },
+      (root) => {
+        updates.push(root);
+        updated?.();
+      },
+      controller.signal,
+    );
+    while (updates.length === 0) {
+      await new Promise<void>((resolve) => updated = resolve);
+    }
+
+    // Editing a file only re-reads the status of its repository.
+    const app = join(group, "app");
+    await Deno.writeTextFile(join(app, "README.md"), "# edited\n");
+    let root = await nextUpdate(() =>
+      fileSystem.send("modify", join(app, "README.md"))
+    );
+    assertEquals(runner.statusPaths, [app]);
+    assertEquals(find(root, app)?.gitStatus?.unstaged, 1);
+
+    // Git's own lock files never cause a rescan.
+    root = await nextUpdate(() =>
+      fileSystem.send("create", join(app, ".git", "index.lock"))
+    );
+    assertEquals(runner.statusPaths, [app]);
+
+    // A new file rescans its repository, and nothing else.
+    const lib = join(group, "lib");
+    await Deno.writeTextFile(join(lib, "notes.txt"), "draft\n");
+    root = await nextUpdate(() =>
+      fileSystem.send("create", join(lib, "notes.txt"))
+    );
+    assertEquals(runner.statusPaths, [lib]);
+    assert(find(root, join(lib, "notes.txt")));
+    assertEquals(find(root, app)?.gitStatus?.unstaged, 1);
+
+    // A new directory outside any repository rescans the one listing it.
+    await Deno.mkdir(join(workspace, "notes", "2024"));
+    root = await nextUpdate(() =>
+      fileSystem.send("create", join(workspace, "notes", "2024"))
+    );
+    assertEquals(runner.statusPaths, []);
+    assert(find(root, join(workspace, "notes", "2024")));
+
+    // A new repository appears in its parent directory.
+    const tool = join(group, "tool");
+    await createRepository(tool);
+    root = await nextUpdate(() => fileSystem.send("create", tool));
+    assertEquals(runner.statusPaths.sort(), [app, lib, tool]);
+    assert(find(root, tool)?.gitStatus);
+
+    // A removed repository disappears.
+    await Deno.remove(tool, { recursive: true });
+    root = await nextUpdate(() => fileSystem.send("remove", tool));
+    assertEquals(find(root, tool), undefined);
+    assertEquals(find(root, group)?.children.map((item) => item.name), [
+      "app",
+      "lib",
+    ]);
+
+    // `git init` turns an existing directory into a repository...
+    const notes = join(workspace, "notes");
+    await git(notes, "init", "--initial-branch=main");
+    root = await nextUpdate(() =>
+      fileSystem.send("create", join(notes, ".git"))
+    );
+    assertEquals(find(root, notes)?.type, ItemType.RepoDirectory);
+    assertEquals(runner.statusPaths, [notes]);
+
+    // ...and removing its `.git` turns it back into a plain directory.
+    await Deno.remove(join(notes, ".git"), { recursive: true });
+    root = await nextUpdate(() =>
+      fileSystem.send(
+        "remove",
+        join(notes, ".git", "HEAD"),
+        join(notes, ".git"),
+      )
+    );
+    assertEquals(find(root, notes)?.type, ItemType.Directory);
+    assert(find(root, join(notes, "2024")));
+
+    controller.abort();
+    await watching;
+  } finally {
+    controller.abort();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
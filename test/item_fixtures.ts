@@ -0,0 +1,71 @@
+import { basename } from "@std/path";
+import { emptyGitStatus, GitStatus } from "../src/git_status.ts";
+import { ItemInfo, ItemType } from "../src/types.ts";
+
+/**
+ * Creates the status of a clean repository on `main`.
+ * @param fields The fields to change.
+ */
+export function repoStatus(fields: Partial<GitStatus> = {}): GitStatus {
+  return { ...emptyGitStatus(), branch: "main", ...fields };
+}
+
+function leadsToRepo(item: ItemInfo): boolean {
+  return item.type === ItemType.RepoDirectory || item.containsRepo;
+}
+
+/**
+ * Creates a standard repository item, clean and on `main` unless `fields`
+ * say otherwise. `containsRepo` follows the children given in `fields`.
+ * @param path Absolute path of the repository; its name is the last segment.
+ * @param fields The fields to change.
+ */
+export function repoItem(
+  path: string,
+  fields: Partial<ItemInfo> = {},
+): ItemInfo {
+  return {
+    name: basename(path),
+    path,
+    type: ItemType.RepoDirectory,
+    children: [],
+    allPathsLeadToRepo: true,
+    containsRepo: (fields.children ?? []).some(leadsToRepo),
+    repository: { kind: "standard", gitDir: `${path}/.git` },
+    gitStatus: repoStatus(),
+    ...fields,
+  };
+}
+
+/**
+ * Creates a file item.
+ * @param path Absolute path of the file.
+ */
+export function fileItem(path: string): ItemInfo {
+  return {
+    name: basename(path),
+    path,
+    type: ItemType.File,
+    children: [],
+    allPathsLeadToRepo: false,
+    containsRepo: false,
+  };
+}
+
+/**
+ * Creates a plain directory item whose repository flags follow its children
+ * the way a scan sets them.
+ * @param path Absolute path of the directory.
+ * @param children The items listed in it.
+ */
+export function directoryItem(path: string, children: ItemInfo[]): ItemInfo {
+  return {
+    name: basename(path),
+    path,
+    type: ItemType.Directory,
+    children,
+    allPathsLeadToRepo: children.length > 0 &&
+      children.every((child) => child.allPathsLeadToRepo),
+    containsRepo: children.some(leadsToRepo),
+  };
+}
@@ -151,6 +151,59 @@ export class MockFileSystem implements FileSystem {
     }
   }
 
+  readTextFile(path: string): Promise<string> {
+    const normalizedPath = this.normalizePath(path);
+
+    if (this.notFoundPaths.has(normalizedPath)) {
+      return Promise.reject(
+        new Deno.errors.NotFound(`Path not found: ${normalizedPath}`),
+      );
+    }
+    if (this.permissionDeniedPaths.has(normalizedPath)) {
+      return Promise.reject(
+        new Deno.errors.PermissionDenied(`Permission denied: ${normalizedPath}`),
+      );
+    }
+
+    const fileInfo = this.files.get(normalizedPath);
+    if (!fileInfo) {
+      return Promise.reject(
+        new Deno.errors.NotFound(`File not found: ${normalizedPath}`),
+      );
+    }
+    return Promise.resolve(fileInfo.content ?? "");
+  }
+
+  readLink(path: string): Promise<string> {
+    return Promise.reject(
+      new Deno.errors.InvalidData(`Not a symlink: ${this.normalizePath(path)}`),
+    );
+  }
+
+  writeTextFile(path: string, content: string): Promise<void> {
+    const normalizedPath = this.normalizePath(path);
+    if (this.permissionDeniedPaths.has(normalizedPath)) {
+      return Promise.reject(
+        new Deno.errors.PermissionDenied(`Permission denied: ${normalizedPath}`),
+      );
+    }
+    this.addFile(normalizedPath, normalizedPath.split("/").pop() ?? "", content);
+    return Promise.resolve();
+  }
+
+  mkdir(path: string): Promise<void> {
+    let current = this.normalizePath(path);
+    while (current && !this.directories.has(current)) {
+      this.addDirectory(current, "");
+      current = this.getParentPath(current);
+    }
+    return Promise.resolve();
+  }
+
+  watchFs(_paths: string | string[]): Deno.FsWatcher {
+    throw new Error("MockFileSystem does not support watching");
+  }
+
   cwd(): string {
     return this.currentWorkingDirectory;
   }
@@ -0,0 +1,89 @@
+import { basename, join } from "@std/path";
+import {
+  CommandOptions,
+  CommandResult,
+  DenoCommandRunner,
+} from "../src/command_runner.ts";
+import { Logger } from "../src/logger.ts";
+
+/** A logger for tests that only check return values. */
+export const silentLog: Logger = { info() {}, warn() {}, error() {} };
+
+/**
+ * Runs git with a fixed identity, so commits work without a user config.
+ * @param cwd The directory to run git in.
+ * @param args The git arguments.
+ * @throws If git exits with a non-zero code.
+ */
+export async function git(cwd: string, ...args: string[]): Promise<void> {
+  const { code, stderr } = await new Deno.Command("git", {
+    args: [
+      "-c",
+      "user.name=Test",
+      "-c",
+      "user.email=test@example.com",
+      ...args,
+    ],
+    cwd,
+    stdout: "null",
+    stderr: "piped",
+  }).output();
+  if (code !== 0) {
+    throw new Error(
+      `git ${args.join(" ")} failed: ${new TextDecoder().decode(stderr)}`,
+    );
+  }
+}
+
+/**
+ * Creates a repository on `main` with a committed README.md.
+ * @param path The working tree to create, including missing parents.
+ */
+export async function createRepository(path: string): Promise<void> {
+  await Deno.mkdir(path, { recursive: true });
+  await git(path, "init", "--initial-branch=main");
+  await Deno.writeTextFile(join(path, "README.md"), "# repo\n");
+  await git(path, "add", "README.md");
+  await git(path, "commit", "-m", "Initial commit");
+}
+
+/**
+ * Runs `fn` with a fresh temporary directory and removes it afterwards.
+ * @param fn The test body, given the directory path.
+ */
+export async function withTempDir(
+  fn: (dir: string) => Promise<void>,
+): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: "repo_tree_test_" });
+  try {
+    await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+/**
+ * Waits for the given time.
+ * @param ms The time in milliseconds.
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Answers `git status` late for the repositories given a delay. */
+export class SlowStatusRunner extends DenoCommandRunner {
+  /** @param _delays Milliseconds to wait, by repository directory name. */
+  constructor(private readonly _delays: Record<string, number>) {
+    super();
+  }
+
+  override async runCommand(
+    args: string[],
+    opts: CommandOptions,
+  ): Promise<CommandResult> {
+    if (args[1] === "status" && opts.cwd) {
+      await delay(this._delays[basename(opts.cwd)] ?? 0);
+    }
+    return await super.runCommand(args, opts);
+  }
+}